@@ -1,5 +1,6 @@
 import admin from 'firebase-admin';
 import { getFirestore } from 'firebase-admin/firestore';
+import { Auth, getAuth } from 'firebase-admin/auth';
 
 let firebaseApp: admin.app.App | null = null;
 
@@ -43,3 +44,11 @@ export const getFirestoreInstance = (): FirebaseFirestore.Firestore => {
   return getFirestore(app);
 };
 
+/**
+ * Get Firebase Auth instance
+ * @returns {Auth} Auth instance
+ */
+export const getAuthInstance = (): Auth => {
+  const app = initializeFirebase();
+  return getAuth(app);
+};
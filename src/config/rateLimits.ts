@@ -0,0 +1,55 @@
+import { SocketEvents } from '../types';
+import { BucketOptions } from '../utils/tokenBucket';
+
+/**
+ * Parse a bucket from an env value in the form "capacity/refillPerSecond" (e.g. "10/2")
+ * @param {string | undefined} value - Env value
+ * @param {BucketOptions} fallback - Default bucket
+ * @returns {BucketOptions} Bucket options
+ */
+const parseBucket = (value: string | undefined, fallback: BucketOptions): BucketOptions => {
+  if (!value) return fallback;
+
+  const [capacity, refillPerSecond] = value.split('/').map((part) => parseFloat(part));
+
+  if (!(capacity > 0) || !(refillPerSecond > 0)) {
+    return fallback;
+  }
+
+  return { capacity, refillPerSecond };
+};
+
+// Per-IP limit for the REST API
+export const HTTP_RATE_LIMIT = parseBucket(process.env.RATE_LIMIT_HTTP, {
+  capacity: 100,
+  refillPerSecond: 5,
+});
+
+// Per-event limits, applied per socket and per user
+export const SOCKET_EVENT_RATE_LIMITS: Partial<Record<string, BucketOptions>> = {
+  [SocketEvents.JOIN_MEETING]: parseBucket(process.env.RATE_LIMIT_JOIN_MEETING, {
+    capacity: 5,
+    refillPerSecond: 0.2,
+  }),
+  [SocketEvents.CHAT_MESSAGE]: parseBucket(process.env.RATE_LIMIT_CHAT_MESSAGE, {
+    capacity: 10,
+    refillPerSecond: 2,
+  }),
+  [SocketEvents.CHAT_PRIVATE]: parseBucket(process.env.RATE_LIMIT_CHAT_MESSAGE, {
+    capacity: 10,
+    refillPerSecond: 2,
+  }),
+};
+
+// Limit for every other socket event
+export const SOCKET_DEFAULT_RATE_LIMIT = parseBucket(process.env.RATE_LIMIT_SOCKET_DEFAULT, {
+  capacity: 30,
+  refillPerSecond: 10,
+});
+
+// Throttled events allowed per window before the socket is disconnected
+export const SOCKET_MAX_STRIKES = parseInt(process.env.RATE_LIMIT_MAX_STRIKES || '20', 10);
+export const SOCKET_STRIKE_WINDOW_MS = parseInt(
+  process.env.RATE_LIMIT_STRIKE_WINDOW_MS || '60000',
+  10
+);
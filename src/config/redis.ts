@@ -0,0 +1,52 @@
+import { createClient } from 'redis';
+import { logger } from '../utils/logger';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+let redisClient: RedisClient | null = null;
+
+/**
+ * Check if a Redis (or Redis-protocol compatible) server is configured
+ * @returns {boolean} True if REDIS_URL is set
+ */
+export const isRedisConfigured = (): boolean => {
+  return Boolean(process.env.REDIS_URL);
+};
+
+/**
+ * Create a new Redis client and start connecting
+ * Commands issued before the connection is ready are queued.
+ * @returns {RedisClient} Redis client
+ * @throws {Error} If REDIS_URL is missing
+ */
+export const createRedisClient = (): RedisClient => {
+  const url = process.env.REDIS_URL;
+
+  if (!url) {
+    throw new Error('Missing Redis configuration. Please set REDIS_URL in your .env file.');
+  }
+
+  const client = createClient({ url });
+
+  client.on('error', (error) => {
+    logger.error('Redis client error', error);
+  });
+
+  client.connect().catch((error) => {
+    logger.error('Error connecting to Redis', error);
+  });
+
+  return client;
+};
+
+/**
+ * Get the shared Redis client used for commands
+ * @returns {RedisClient} Redis client
+ */
+export const getRedisClient = (): RedisClient => {
+  if (!redisClient) {
+    redisClient = createRedisClient();
+  }
+
+  return redisClient;
+};
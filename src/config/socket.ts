@@ -1,29 +1,115 @@
+import { randomUUID } from 'crypto';
 import { Server as HTTPServer } from 'http';
 import { Server, Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import { 
   SocketEvents, 
   OnlineUser, 
   ChatMessage, 
   JoinMeetingPayload, 
-  TypingPayload 
+  TypingPayload,
+  ModerationPayload,
+  MessageUpdatePayload,
+  ReactionPayload,
+  PrivateMessage,
+  PrivateMessagePayload,
+  ReadPayload,
+  LobbyPayload,
+  RolePayload,
+  ResumePayload,
+  LobbyEntry,
+  Meeting,
 } from '../types';
 import { ChatService } from '../services/chatService';
+import { TypingService, TypingUser } from '../services/typingService';
+import { getLobbyService } from '../services/lobbyService';
+import { ReconnectService } from '../services/reconnectService';
+import { PresenceSweeper } from '../services/presenceSweeper';
+import { getMeetingScheduler } from '../services/meetingScheduler';
+import { getRoleService } from '../services/roleService';
+import { createMessageFilters, runMessageFilters } from '../filters';
+import { getPresenceStore } from '../presence';
+import { createRedisClient, getRedisClient, isRedisConfigured } from './redis';
+import {
+  createSocketAuthMiddleware,
+  firebaseTokenVerifier,
+  getSocketUser,
+  TokenVerifier,
+} from '../middlewares/socketAuth';
+import { createSocketRateLimiter } from '../middlewares/socketRateLimiter';
 import { logger } from '../utils/logger';
+import { ASSIGNABLE_ROLES, hasPermission, outranks } from '../utils/permissions';
+import { signResumeToken, verifyResumeToken } from '../utils/resumeToken';
 
 const chatService = new ChatService();
 
-// Store online users by meeting (in memory - real-time only)
-const meetingRooms = new Map<string, OnlineUser[]>();
+// Online users by meeting (real-time only, shared across instances with Redis)
+const presenceStore = getPresenceStore();
 
 // Configuration constants
 const MAX_PARTICIPANTS = parseInt(process.env.MAX_PARTICIPANTS || '10', 10);
+const TYPING_TIMEOUT_MS = parseInt(process.env.TYPING_TIMEOUT_MS || '5000', 10);
+const TYPING_THROTTLE_MS = parseInt(process.env.TYPING_THROTTLE_MS || '1000', 10);
+
+/**
+ * Read how long dropped sockets keep their slot
+ * Resume tokens can't be signed in production without RESUME_TOKEN_SECRET, so
+ * holding a slot nobody can resume is pointless and resuming is disabled instead.
+ * @returns {number} Grace period in milliseconds (0 disables resuming)
+ */
+const getReconnectGraceMs = (): number => {
+  const graceMs = parseInt(process.env.RECONNECT_GRACE_MS || '30000', 10);
+
+  if (graceMs > 0 && process.env.NODE_ENV === 'production' && !process.env.RESUME_TOKEN_SECRET) {
+    logger.warn('RESUME_TOKEN_SECRET is not configured, reconnect grace period disabled');
+    return 0;
+  }
+
+  return graceMs;
+};
+
+const RECONNECT_GRACE_MS = getReconnectGraceMs();
+const PRESENCE_HEARTBEAT_MS = parseInt(process.env.PRESENCE_HEARTBEAT_MS || '15000', 10);
+
+// What happens when a socket already in a meeting joins another one:
+// allow (stay in both), switch (leave the others first) or reject (refuse the join)
+type MultiMeetingPolicy = 'allow' | 'switch' | 'reject';
+const MULTI_MEETING_POLICY: MultiMeetingPolicy =
+  process.env.MULTI_MEETING_POLICY === 'switch' || process.env.MULTI_MEETING_POLICY === 'reject'
+    ? process.env.MULTI_MEETING_POLICY
+    : 'allow';
+
+// Moderation rules every chat message goes through (see CHAT_* env vars)
+const messageFilters = createMessageFilters();
+
+// Who is typing in each meeting (expires if the client never sends typing:stop)
+const typingService = new TypingService(TYPING_TIMEOUT_MS, TYPING_THROTTLE_MS);
+
+// Moves meetings between scheduled, live and completed
+const meetingScheduler = getMeetingScheduler();
+
+// Promotions, demotions and host changes (REST and socket)
+const roleService = getRoleService();
+
+// Dropped sockets keep their slot for a while so the client can resume
+const reconnectService = new ReconnectService(RECONNECT_GRACE_MS);
+
+// Heartbeat for this instance's presence, and cleanup after instances that died
+const presenceSweeper = new PresenceSweeper({ intervalMs: PRESENCE_HEARTBEAT_MS });
+
+// Users waiting for the host to let them into lobby-enabled meetings (shared between instances)
+const lobbyService = getLobbyService();
 
 /**
  * Initialize Socket.IO server
  * @param {HTTPServer} httpServer - HTTP server instance
+ * @param {TokenVerifier} verifyToken - Handshake token verifier (Firebase by default)
  * @returns {Server} Socket.IO server instance
  */
-export const initializeSocketIO = (httpServer: HTTPServer): Server => {
+export const initializeSocketIO = (
+  httpServer: HTTPServer,
+  verifyToken: TokenVerifier = firebaseTokenVerifier
+): Server => {
   const corsOriginEnv = process.env.CORS_ORIGIN || 'http://localhost:5173';
   const allowedOrigins = corsOriginEnv === '*' 
     ? '*' 
@@ -39,6 +125,47 @@ export const initializeSocketIO = (httpServer: HTTPServer): Server => {
     pingInterval: 25000,
   });
 
+  // Broadcast rooms across server instances when Redis is available
+  if (isRedisConfigured()) {
+    io.adapter(createAdapter(getRedisClient(), createRedisClient()));
+    logger.info('Socket.IO Redis adapter enabled');
+  }
+
+  // Tell the room when a typing indicator times out
+  typingService.onExpire((meetingId, user) => {
+    emitTypingStop(io, meetingId, user);
+  });
+
+  // Remove users whose connection did not come back in time
+  reconnectService.onExpire((meetingId, socketId) => {
+    handleUserLeave(socketId, meetingId, io)
+      .then(() => releaseIdleSocket(socketId))
+      .catch((error) => logger.error('Error releasing expired socket', error));
+  });
+
+  // Remove users held by instances that crashed or were redeployed
+  presenceSweeper.onOrphanedSocket((socketId) => removeOrphanedSocket(io, socketId));
+  presenceSweeper.start();
+
+  // Tell the room when a meeting goes live, ends or is cancelled
+  meetingScheduler.onStatusChange((change) => {
+    io.to(change.meetingId).emit(SocketEvents.MEETING_STATUS, change);
+  });
+
+  // Tell the room when roles or the host change
+  roleService.onRoleChange((change) => {
+    io.to(change.meetingId).emit(SocketEvents.ROLE_CHANGED, change);
+  });
+  roleService.onHostChange((change) => {
+    io.to(change.meetingId).emit(SocketEvents.HOST_CHANGED, change);
+  });
+
+  // Reject connections without a valid ID token and bind the verified user
+  io.use(createSocketAuthMiddleware(verifyToken));
+
+  // Token bucket limits per socket, per user and per event type
+  const rateLimitSocket = createSocketRateLimiter();
+
   /**
    * Handle socket connection
    * @param {Socket} socket - Socket instance
@@ -46,16 +173,21 @@ export const initializeSocketIO = (httpServer: HTTPServer): Server => {
   io.on(SocketEvents.CONNECTION, (socket: Socket) => {
     logger.info(`New connection: ${socket.id}`);
 
+    rateLimitSocket(socket);
+
     /**
      * Handle user joining a meeting
      */
     socket.on(SocketEvents.JOIN_MEETING, async (payload: JoinMeetingPayload) => {
       try {
-        const { meetingId, userId, username } = payload;
+        const { meetingId } = payload;
+        const socketUser = getSocketUser(socket);
+        const userId = socketUser.userId;
+        const username = payload.username || socketUser.username;
 
-        if (!meetingId || !userId) {
+        if (!meetingId) {
           socket.emit(SocketEvents.ERROR, {
-            message: 'Meeting ID and User ID are required',
+            message: 'Meeting ID is required',
           });
           return;
         }
@@ -64,75 +196,47 @@ export const initializeSocketIO = (httpServer: HTTPServer): Server => {
         const meetingExists = await chatService.meetingExists(meetingId);
         if (!meetingExists) {
           socket.emit(SocketEvents.ERROR, {
+            code: 'MEETING_NOT_FOUND',
             message: 'Meeting not found',
           });
           return;
         }
 
-        // Get current participants in the meeting (real-time, in memory)
-        const currentParticipants = meetingRooms.get(meetingId) || [];
-
-        // Get meeting info to check maxParticipants
+        // Get meeting info to check the join rules
         const meetingInfo = await chatService.getMeetingInfo(meetingId);
-        const meetingMaxParticipants = meetingInfo?.maxParticipants || MAX_PARTICIPANTS;
 
-        // Check if meeting is full
-        if (currentParticipants.length >= meetingMaxParticipants) {
+        // Ban, visibility, status and early-join window (same rules as the REST join)
+        const rejection = chatService.checkJoin(meetingInfo, userId, payload.passcode);
+        if (rejection) {
           socket.emit(SocketEvents.ERROR, {
-            message: `Meeting is full (maximum ${meetingMaxParticipants} participants)`,
+            code: rejection.code,
+            message: rejection.message,
+            ...(rejection.opensAt && { opensAt: rejection.opensAt }),
           });
           return;
         }
 
-        // Check if user is already connected (avoid duplicates in real-time list)
-        const existingUser = currentParticipants.find(u => u.userId === userId);
-        if (existingUser) {
-          // Update socket ID if user reconnects
-          existingUser.socketId = socket.id;
-        } else {
-          // Add new user to real-time list
-          const newUser: OnlineUser = {
-            socketId: socket.id,
-            userId,
-            meetingId,
-            username,
-            joinedAt: new Date().toISOString(),
-          };
-          currentParticipants.push(newUser);
+        // One socket in several meetings (MULTI_MEETING_POLICY)
+        if (!(await applyMeetingPolicy(io, socket.id, meetingId))) {
+          return;
         }
 
-        // Update meeting rooms (real-time, in memory)
-        meetingRooms.set(meetingId, currentParticipants);
-
-        // Join the socket room
-        socket.join(meetingId);
-
-        // Add user to participants in Firestore if not already there
-        // This keeps a persistent record of everyone who has connected
-        await chatService.addParticipantToMeeting(meetingId, userId);
-
-        // Update active participants count in Firestore (real-time count)
-        await chatService.updateActiveParticipants(meetingId, currentParticipants.length);
-
-        // Notify all users in the meeting about who is currently online (real-time)
-        io.to(meetingId).emit(SocketEvents.USERS_ONLINE, {
-          meetingId,
-          participants: currentParticipants.map(p => ({
-            userId: p.userId,
-            username: p.username,
-            joinedAt: p.joinedAt,
-          })),
-          count: currentParticipants.length,
-        });
+        // Waiting room: hold the user until the host admits them
+        if (await lobbyService.needsLobby(meetingInfo, userId)) {
+          await waitInLobby(io, socket.id, meetingInfo, { userId, username });
+          return;
+        }
 
-        // Notify others that a new user joined
-        socket.to(meetingId).emit(SocketEvents.USER_JOINED, {
-          userId,
-          username,
-          timestamp: new Date().toISOString(),
-        });
+        if (!(await enterMeeting(io, socket.id, meetingInfo, { userId, username }))) {
+          return;
+        }
 
-        logger.success(`User ${userId} joined meeting ${meetingId}`);
+        // The host and co-hosts see who was already waiting
+        if (hasPermission(meetingInfo, userId, 'admit')) {
+          for (const entry of await lobbyService.getWaiting(meetingId)) {
+            emitLobbyRequest(io, socket.id, meetingId, entry);
+          }
+        }
 
       } catch (error) {
         logger.error('Error joining meeting', error);
@@ -143,15 +247,17 @@ export const initializeSocketIO = (httpServer: HTTPServer): Server => {
     });
 
     /**
-     * Handle chat message (real-time only, not saved to database)
+     * Handle chat message (saved to meeting history, then broadcast)
      */
     socket.on(SocketEvents.CHAT_MESSAGE, async (payload: Partial<ChatMessage>) => {
       try {
-        const { meetingId, userId, message } = payload;
+        const { meetingId, message } = payload;
+        const socketUser = getSocketUser(socket);
+        const userId = socketUser.userId;
 
-        if (!meetingId || !userId || !message) {
+        if (!meetingId || !message) {
           socket.emit(SocketEvents.ERROR, {
-            message: 'Meeting ID, User ID, and message are required',
+            message: 'Meeting ID and message are required',
           });
           return;
         }
@@ -161,22 +267,56 @@ export const initializeSocketIO = (httpServer: HTTPServer): Server => {
           return;
         }
 
+        // Muted users and viewers cannot send messages
+        if (!(await authorizeSend(socket, meetingId, userId))) {
+          return;
+        }
+
+        // Run moderation rules before anything is stored or broadcast
+        const filteredMessage = filterMessage(socket, meetingId, userId, trimmedMessage);
+        if (filteredMessage === null) {
+          return;
+        }
+
+        // Replies must point to a message in the same meeting
+        let reply: Partial<ChatMessage> = {};
+        if (payload.replyToMessageId) {
+          try {
+            reply = await chatService.buildReply(meetingId, payload.replyToMessageId);
+          } catch (error) {
+            if ((error as Error).message !== 'Message not found') {
+              throw error;
+            }
+            socket.emit(SocketEvents.ERROR, {
+              message: 'The message you are replying to was not found in this meeting',
+            });
+            return;
+          }
+        }
+
         // Get user info from real-time list
-        const participants = meetingRooms.get(meetingId) || [];
-        const user = participants.find(p => p.socketId === socket.id || p.userId === userId);
+        const participants = await presenceStore.getParticipants(meetingId);
+        const user = participants.find(p => p.socketIds.includes(socket.id) || p.userId === userId);
 
         const chatMessage: ChatMessage = {
-          messageId: `${Date.now()}_${socket.id}`,
+          messageId: randomUUID(),
           meetingId,
           userId,
-          username: user?.username || payload.username,
-          message: trimmedMessage,
+          username: user?.username || socketUser.username,
+          message: filteredMessage,
           timestamp: new Date().toISOString(),
+          ...reply,
         };
 
-        // Broadcast message to all users in the meeting (real-time only, not saved)
+        // Persist before broadcasting so late joiners get it in their history
+        await chatService.saveMessage(chatMessage);
+
+        // Broadcast message to all users in the meeting
         io.to(meetingId).emit(SocketEvents.CHAT_MESSAGE, chatMessage);
 
+        // Sending a message ends the typing indicator
+        stopTyping(io, meetingId, userId);
+
         logger.info(`Message sent in meeting ${meetingId} by user ${userId}`);
 
       } catch (error) {
@@ -187,147 +327,1534 @@ export const initializeSocketIO = (httpServer: HTTPServer): Server => {
       }
     });
 
+    /**
+     * Handle private message to one participant (not broadcast, not saved)
+     */
+    socket.on(SocketEvents.CHAT_PRIVATE, async (payload: PrivateMessagePayload) => {
+      try {
+        const { meetingId, targetUserId, message } = payload || {};
+        const { userId } = getSocketUser(socket);
+
+        if (!meetingId || !targetUserId || !message) {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'Meeting ID, target user ID, and message are required',
+          });
+          return;
+        }
+
+        const trimmedMessage = message.trim();
+        if (!trimmedMessage) {
+          return;
+        }
+
+        if (targetUserId === userId) {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'You cannot send a private message to yourself',
+          });
+          return;
+        }
+
+        // Both users must currently be in the same meeting
+        const participants = await presenceStore.getParticipants(meetingId);
+        const sender = participants.find(p => p.socketIds.includes(socket.id));
+        const target = participants.find(p => p.userId === targetUserId);
+
+        if (!sender) {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'You are not in this meeting',
+          });
+          return;
+        }
+
+        if (!target) {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'User is not in the meeting',
+          });
+          return;
+        }
+
+        if (!(await authorizeSend(socket, meetingId, userId))) {
+          return;
+        }
+
+        const filteredMessage = filterMessage(socket, meetingId, userId, trimmedMessage);
+        if (filteredMessage === null) {
+          return;
+        }
+
+        const privateMessage: PrivateMessage = {
+          messageId: randomUUID(),
+          meetingId,
+          userId,
+          username: sender.username,
+          toUserId: target.userId,
+          toUsername: target.username,
+          message: filteredMessage,
+          timestamp: new Date().toISOString(),
+        };
+
+        // Deliver only to the target and the sender (all their devices), never to the meeting room
+        io.to([...target.socketIds, ...sender.socketIds]).emit(SocketEvents.CHAT_PRIVATE, privateMessage);
+
+        logger.info(`Private message sent in meeting ${meetingId} by user ${userId}`);
+
+      } catch (error) {
+        logger.error('Error sending private message', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to send private message',
+        });
+      }
+    });
+
+    /**
+     * Handle message edit (author or host only)
+     */
+    socket.on(SocketEvents.CHAT_EDIT, async (payload: MessageUpdatePayload) => {
+      try {
+        const { meetingId, messageId } = payload || {};
+        const { userId } = getSocketUser(socket);
+        const trimmedMessage = payload?.message?.trim();
+
+        if (!trimmedMessage) {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'Message text is required',
+          });
+          return;
+        }
+
+        const original = await authorizeMessageUpdate(socket, payload);
+        if (!original) {
+          return;
+        }
+
+        // Muted users and viewers cannot change what the room sees either
+        if (!(await authorizeSend(socket, meetingId, userId))) {
+          return;
+        }
+
+        const filteredMessage = filterMessage(socket, meetingId, userId, trimmedMessage);
+        if (filteredMessage === null) {
+          return;
+        }
+
+        const edited = await chatService.editMessage(meetingId, messageId, filteredMessage);
+
+        // Broadcast so clients can update the message in place
+        io.to(meetingId).emit(SocketEvents.CHAT_EDIT, edited);
+
+        logger.info(`Message ${messageId} edited in meeting ${meetingId} by user ${userId}`);
+
+      } catch (error) {
+        logger.error('Error editing message', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to edit message',
+        });
+      }
+    });
+
+    /**
+     * Handle message deletion (author or host only, leaves a tombstone)
+     */
+    socket.on(SocketEvents.CHAT_DELETE, async (payload: MessageUpdatePayload) => {
+      try {
+        const original = await authorizeMessageUpdate(socket, payload);
+        if (!original) {
+          return;
+        }
+
+        const { meetingId, messageId } = payload;
+        const tombstone = await chatService.deleteMessage(meetingId, messageId);
+
+        // Broadcast so clients can replace the message in place
+        io.to(meetingId).emit(SocketEvents.CHAT_DELETE, tombstone);
+
+        logger.info(`Message ${messageId} deleted in meeting ${meetingId}`);
+
+      } catch (error) {
+        logger.error('Error deleting message', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to delete message',
+        });
+      }
+    });
+
+    /**
+     * Handle emoji reaction on a message
+     */
+    socket.on(SocketEvents.CHAT_REACT, async (payload: ReactionPayload) => {
+      await handleReaction(socket, io, payload, true);
+    });
+
+    /**
+     * Handle removing an emoji reaction from a message
+     */
+    socket.on(SocketEvents.CHAT_UNREACT, async (payload: ReactionPayload) => {
+      await handleReaction(socket, io, payload, false);
+    });
+
+    /**
+     * Handle read receipt: the client reports the last message it has seen
+     */
+    socket.on(SocketEvents.CHAT_READ, async (payload: ReadPayload) => {
+      try {
+        const { meetingId, messageId } = payload || {};
+        const { userId } = getSocketUser(socket);
+
+        if (!meetingId || !messageId) {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'Meeting ID and message ID are required',
+          });
+          return;
+        }
+
+        if (!authorizeMember(socket, meetingId)) {
+          return;
+        }
+
+        const cursor = await chatService.markMessageRead(meetingId, userId, messageId);
+
+        // Only broadcast when the cursor moved forward
+        if (cursor) {
+          io.to(meetingId).emit(SocketEvents.CHAT_READ, {
+            meetingId,
+            userId,
+            messageId: cursor.messageId,
+            readAt: cursor.readAt,
+          });
+        }
+
+      } catch (error) {
+        if ((error as Error).message === 'Message not found') {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'Message not found',
+          });
+          return;
+        }
+        logger.error('Error updating read receipt', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to update read receipt',
+        });
+      }
+    });
+
     /**
      * Handle typing indicator start
      */
     socket.on(SocketEvents.TYPING_START, (payload: TypingPayload) => {
-      const { meetingId, userId, username } = payload;
-      
-      if (!meetingId || !userId) {
+      const { meetingId } = payload || {};
+      const socketUser = getSocketUser(socket);
+
+      // Only users in the meeting room can type in it
+      if (!meetingId || !socket.rooms.has(meetingId)) {
+        return;
+      }
+
+      const result = typingService.start(meetingId, {
+        userId: socketUser.userId,
+        username: socketUser.username,
+      });
+
+      // Refreshes and throttled repeats only extend the timeout
+      if (result !== 'started') {
         return;
       }
 
       // Broadcast to others in the meeting (not to sender)
       socket.to(meetingId).emit(SocketEvents.TYPING_START, {
-        userId,
-        username,
+        userId: socketUser.userId,
+        username: socketUser.username,
       });
+      emitTypingUsers(io, meetingId);
     });
 
     /**
      * Handle typing indicator stop
      */
     socket.on(SocketEvents.TYPING_STOP, (payload: TypingPayload) => {
-      const { meetingId, userId, username } = payload;
-      
-      if (!meetingId || !userId) {
+      const { meetingId } = payload || {};
+      const { userId } = getSocketUser(socket);
+
+      if (!meetingId) {
         return;
       }
 
-      // Broadcast to others in the meeting (not to sender)
-      socket.to(meetingId).emit(SocketEvents.TYPING_STOP, {
-        userId,
-        username,
-      });
+      stopTyping(io, meetingId, userId);
     });
 
     /**
-     * Handle user leaving a meeting
+     * Handle host kicking a participant out of the meeting
      */
-    socket.on(SocketEvents.LEAVE_MEETING, async (meetingId: string) => {
-      await handleUserLeave(socket, meetingId, io);
-    });
+    socket.on(SocketEvents.MODERATION_KICK, async (payload: ModerationPayload) => {
+      try {
+        if (!(await authorizeModeration(socket, payload))) {
+          return;
+        }
 
-    /**
-     * Handle socket disconnection
-     */
-    socket.on(SocketEvents.DISCONNECT, async () => {
-      logger.info(`Disconnected: ${socket.id}`);
+        const { meetingId, targetUserId, reason } = payload;
+        const participants = await presenceStore.getParticipants(meetingId);
+        const target = participants.find(p => p.userId === targetUserId);
 
-      // Find and remove user from all meetings (real-time list)
-      for (const [meetingId, participants] of meetingRooms.entries()) {
-        const userIndex = participants.findIndex(p => p.socketId === socket.id);
-        
-        if (userIndex !== -1) {
-          await handleUserLeave(socket, meetingId, io);
-          break;
+        if (!target) {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'User is not in the meeting',
+          });
+          return;
         }
-      }
-    });
-  });
 
-  return io;
-};
+        // A kicked user goes back through the lobby if they rejoin
+        await lobbyService.revoke(meetingId, target.userId);
 
-/**
- * Handle user leaving a meeting
- * @param {Socket} socket - Socket instance
- * @param {string} meetingId - Meeting ID
- * @param {Server} io - Socket.IO server instance
- */
-async function handleUserLeave(socket: Socket, meetingId: string, io: Server): Promise<void> {
-  try {
-    const participants = meetingRooms.get(meetingId);
-    
-    if (!participants) {
-      return;
-    }
+        // Tell the target first, then remove them like a normal leave
+        io.to(target.socketIds).emit(SocketEvents.MODERATION_KICKED, {
+          meetingId,
+          reason,
+          timestamp: new Date().toISOString(),
+        });
+        await removeFromMeeting(io, meetingId, target);
 
-    const userIndex = participants.findIndex(p => p.socketId === socket.id);
-    
-    if (userIndex === -1) {
-      return;
-    }
+        emitModerationAction(io, socket, payload, 'kick', target.username);
+        logger.info(`User ${targetUserId} kicked from meeting ${meetingId}`);
 
-    const user = participants[userIndex];
-    
-    // Remove from real-time list (in memory)
-    participants.splice(userIndex, 1);
+      } catch (error) {
+        logger.error('Error kicking user', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to kick user',
+        });
+      }
+    });
 
-    // Update meeting rooms (real-time)
-    if (participants.length === 0) {
-      meetingRooms.delete(meetingId);
-    } else {
-      meetingRooms.set(meetingId, participants);
-    }
+    /**
+     * Handle host muting (or unmuting) a participant's chat
+     */
+    socket.on(SocketEvents.MODERATION_MUTE, async (payload: ModerationPayload) => {
+      try {
+        if (!(await authorizeModeration(socket, payload))) {
+          return;
+        }
 
-    // Leave the socket room
-    socket.leave(meetingId);
+        const { meetingId, targetUserId, reason } = payload;
+        const muted = payload.muted !== false;
 
-    // Notify others in the meeting
-    io.to(meetingId).emit(SocketEvents.USER_LEFT, {
-      userId: user.userId,
-      username: user.username,
-      timestamp: new Date().toISOString(),
-    });
+        await presenceStore.setMuted(meetingId, targetUserId, muted);
 
-    // Update online users list (real-time)
-    io.to(meetingId).emit(SocketEvents.USERS_ONLINE, {
-      meetingId,
-      participants: participants.map(p => ({
-        userId: p.userId,
-        username: p.username,
-        joinedAt: p.joinedAt,
-      })),
-      count: participants.length,
-    });
+        const participants = await presenceStore.getParticipants(meetingId);
+        const target = participants.find(p => p.userId === targetUserId);
 
-    // Update active participants count in Firestore (real-time count)
-    await chatService.updateActiveParticipants(meetingId, participants.length);
+        if (target) {
+          io.to(target.socketIds).emit(SocketEvents.MODERATION_MUTED, {
+            meetingId,
+            muted,
+            reason,
+            timestamp: new Date().toISOString(),
+          });
+        }
 
-    logger.info(`User ${user.userId} left meeting ${meetingId}`);
+        emitModerationAction(io, socket, payload, muted ? 'mute' : 'unmute', target?.username);
+        logger.info(`User ${targetUserId} ${muted ? 'muted' : 'unmuted'} in meeting ${meetingId}`);
+
+      } catch (error) {
+        logger.error('Error muting user', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to mute user',
+        });
+      }
+    });
+
+    /**
+     * Handle host banning a participant (kicks them if online)
+     */
+    socket.on(SocketEvents.MODERATION_BAN, async (payload: ModerationPayload) => {
+      try {
+        if (!(await authorizeModeration(socket, payload))) {
+          return;
+        }
+
+        const { meetingId, targetUserId, reason } = payload;
+
+        // Persist first so the user cannot rejoin while being removed
+        await chatService.banUserFromMeeting(meetingId, targetUserId);
+
+        const participants = await presenceStore.getParticipants(meetingId);
+        const target = participants.find(p => p.userId === targetUserId);
+
+        if (target) {
+          io.to(target.socketIds).emit(SocketEvents.MODERATION_BANNED, {
+            meetingId,
+            reason,
+            timestamp: new Date().toISOString(),
+          });
+          await removeFromMeeting(io, meetingId, target);
+        }
+
+        emitModerationAction(io, socket, payload, 'ban', target?.username);
+        logger.info(`User ${targetUserId} banned from meeting ${meetingId}`);
+
+      } catch (error) {
+        logger.error('Error banning user', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to ban user',
+        });
+      }
+    });
+
+    /**
+     * Handle host admitting a user from the lobby
+     */
+    socket.on(SocketEvents.LOBBY_ADMIT, async (payload: LobbyPayload) => {
+      try {
+        const meetingInfo = await authorizeLobbyDecision(socket, payload);
+        if (!meetingInfo) {
+          return;
+        }
+
+        const { meetingId, targetUserId } = payload;
+        const entry = await lobbyService.admit(meetingId, targetUserId as string);
+
+        if (!entry) {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'User is not waiting in the lobby',
+          });
+          return;
+        }
+
+        io.to(entry.socketId).emit(SocketEvents.LOBBY_ADMITTED, {
+          meetingId,
+          timestamp: new Date().toISOString(),
+        });
+
+        // The socket may have joined another meeting while it waited
+        if (await applyMeetingPolicy(io, entry.socketId, meetingId)) {
+          await enterMeeting(io, entry.socketId, meetingInfo, entry);
+        }
+
+        await emitLobbyPositions(io, meetingId);
+        logger.info(`User ${entry.userId} admitted to meeting ${meetingId}`);
+
+      } catch (error) {
+        logger.error('Error admitting user', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to admit user',
+        });
+      }
+    });
+
+    /**
+     * Handle host denying a user in the lobby
+     */
+    socket.on(SocketEvents.LOBBY_DENY, async (payload: LobbyPayload) => {
+      try {
+        if (!(await authorizeLobbyDecision(socket, payload))) {
+          return;
+        }
+
+        const { meetingId, targetUserId, reason } = payload;
+        const entry = await lobbyService.remove(meetingId, targetUserId as string);
+
+        if (!entry) {
+          socket.emit(SocketEvents.ERROR, {
+            message: 'User is not waiting in the lobby',
+          });
+          return;
+        }
+
+        io.to(entry.socketId).emit(SocketEvents.LOBBY_DENIED, {
+          meetingId,
+          reason,
+          timestamp: new Date().toISOString(),
+        });
+
+        await emitLobbyPositions(io, meetingId);
+        logger.info(`User ${entry.userId} denied entry to meeting ${meetingId}`);
+
+      } catch (error) {
+        logger.error('Error denying user', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to deny user',
+        });
+      }
+    });
+
+    /**
+     * Handle a waiting user giving up
+     */
+    socket.on(SocketEvents.LOBBY_LEAVE, async (payload: LobbyPayload) => {
+      await leaveLobby(io, payload?.meetingId, getSocketUser(socket).userId);
+    });
+
+    /**
+     * Handle host promoting or demoting a participant
+     */
+    socket.on(SocketEvents.ROLE_SET, async (payload: RolePayload) => {
+      try {
+        if (!(await authorizeRoleChange(socket, payload))) {
+          return;
+        }
+
+        const { meetingId, targetUserId, role } = payload;
+        if (!role || !ASSIGNABLE_ROLES.includes(role)) {
+          socket.emit(SocketEvents.ERROR, {
+            message: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`,
+          });
+          return;
+        }
+
+        await roleService.setRole(meetingId, targetUserId, role, getSocketUser(socket).userId);
+
+      } catch (error) {
+        handleRoleError(socket, error, 'Failed to change role');
+      }
+    });
+
+    /**
+     * Handle host handing the meeting over to another participant
+     */
+    socket.on(SocketEvents.HOST_TRANSFER, async (payload: RolePayload) => {
+      try {
+        if (!(await authorizeRoleChange(socket, payload))) {
+          return;
+        }
+
+        await roleService.transferHost(payload.meetingId, payload.targetUserId);
+
+      } catch (error) {
+        handleRoleError(socket, error, 'Failed to transfer host');
+      }
+    });
+
+    /**
+     * Handle a reconnected client taking back its slot
+     */
+    socket.on(SocketEvents.SESSION_RESUME, async (payload: ResumePayload) => {
+      try {
+        const { meetingId, resumeToken, lastMessageId } = payload || {};
+        const { userId } = getSocketUser(socket);
+        const session = typeof resumeToken === 'string' ? verifyResumeToken(resumeToken) : null;
+
+        if (
+          typeof meetingId !== 'string' ||
+          !session ||
+          session.uid !== userId ||
+          session.mid !== meetingId
+        ) {
+          socket.emit(SocketEvents.ERROR, {
+            code: 'INVALID_RESUME_TOKEN',
+            message: 'Invalid resume token',
+          });
+          return;
+        }
+
+        // Same MULTI_MEETING_POLICY as a join, the socket may be in another meeting by now
+        if (!(await applyMeetingPolicy(io, socket.id, meetingId))) {
+          return;
+        }
+
+        const participants = await presenceStore.resume(meetingId, userId, session.sid, socket.id);
+        if (!participants) {
+          socket.emit(SocketEvents.ERROR, {
+            code: 'SESSION_EXPIRED',
+            message: 'Session expired, join the meeting again',
+          });
+          return;
+        }
+
+        reconnectService.release(meetingId, session.sid);
+        socket.join(meetingId);
+
+        socket.emit(SocketEvents.SESSION_RESUMED, { meetingId });
+        emitSessionToken(io, socket.id, meetingId, userId);
+        emitUsersOnline(io, meetingId, participants);
+
+        // Replay what was said while the client was away
+        await emitReplay(socket, meetingId, lastMessageId);
+
+        logger.info(`User ${userId} resumed meeting ${meetingId}`);
+
+      } catch (error) {
+        logger.error('Error resuming session', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to resume session',
+        });
+      }
+    });
+
+    /**
+     * Handle user leaving a meeting
+     */
+    socket.on(SocketEvents.LEAVE_MEETING, async (meetingId: string) => {
+      try {
+        await leaveLobby(io, meetingId, getSocketUser(socket).userId);
+        await handleUserLeave(socket.id, meetingId, io);
+      } catch (error) {
+        logger.error('Error leaving meeting', error);
+        socket.emit(SocketEvents.ERROR, {
+          message: 'Failed to leave meeting',
+        });
+      }
+    });
+
+    /**
+     * Handle socket disconnection
+     */
+    socket.on(SocketEvents.DISCONNECT, async () => {
+      try {
+        logger.info(`Disconnected: ${socket.id}`);
+
+        // Drop the socket from any lobby it was waiting in
+        for (const { meetingId, entry } of await lobbyService.removeSocket(socket.id)) {
+          await notifyLobbyLeft(io, meetingId, entry);
+        }
+
+        // Remove the socket from every meeting it was in (real-time list)
+        for (const meetingId of await presenceStore.getSocketMeetingIds(socket.id)) {
+          const participants = await presenceStore.getParticipants(meetingId);
+          const user = participants.find(p => p.socketIds.includes(socket.id));
+
+          if (user) {
+            await handleUserDrop(socket.id, meetingId, user, io);
+          }
+        }
+
+        await releaseIdleSocket(socket.id);
+      } catch (error) {
+        // The socket is gone, so there is nobody to tell
+        logger.error(`Error handling disconnect of ${socket.id}`, error);
+      }
+    });
+  });
+
+  return io;
+};
+
+/**
+ * Run the message filters, telling the sender why a message was rejected
+ * @param {Socket} socket - Sender socket
+ * @param {string} meetingId - Meeting ID
+ * @param {string} userId - Sender user ID
+ * @param {string} message - Trimmed message text
+ * @returns {string | null} Text to send (possibly masked), or null if rejected
+ */
+function filterMessage(
+  socket: Socket,
+  meetingId: string,
+  userId: string,
+  message: string
+): string | null {
+  const result = runMessageFilters(messageFilters, { meetingId, userId, message });
+
+  if (!result.allowed) {
+    socket.emit(SocketEvents.ERROR, {
+      code: 'MESSAGE_REJECTED',
+      rule: result.rule,
+      message: result.reason,
+    });
+    return null;
+  }
+
+  return result.message;
+}
+
+/**
+ * Send the current list of typing users to everyone in the meeting
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} meetingId - Meeting ID
+ */
+function emitTypingUsers(io: Server, meetingId: string): void {
+  io.to(meetingId).emit(SocketEvents.TYPING_USERS, {
+    meetingId,
+    users: typingService.getTypingUsers(meetingId),
+  });
+}
+
+/**
+ * Tell the meeting a user stopped typing
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} meetingId - Meeting ID
+ * @param {TypingUser} user - User who stopped typing
+ */
+function emitTypingStop(io: Server, meetingId: string, user: TypingUser): void {
+  io.to(meetingId).emit(SocketEvents.TYPING_STOP, {
+    userId: user.userId,
+    username: user.username,
+  });
+  emitTypingUsers(io, meetingId);
+}
+
+/**
+ * Stop a user's typing indicator if it is active
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} meetingId - Meeting ID
+ * @param {string} userId - User ID
+ */
+function stopTyping(io: Server, meetingId: string, userId: string): void {
+  const user = typingService.stop(meetingId, userId);
+
+  if (user) {
+    emitTypingStop(io, meetingId, user);
+  }
+}
+
+/**
+ * Check that a role change is valid and comes from the meeting host
+ * Emits an error to the socket when it is not.
+ * @param {Socket} socket - Socket of the user changing roles
+ * @param {RolePayload} payload - Role payload
+ * @returns {Promise<boolean>} True if the change is allowed
+ */
+async function authorizeRoleChange(socket: Socket, payload: RolePayload): Promise<boolean> {
+  const { meetingId, targetUserId } = payload || {};
+  const { userId } = getSocketUser(socket);
+
+  if (!meetingId || !targetUserId) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Meeting ID and target user ID are required',
+    });
+    return false;
+  }
+
+  const meetingExists = await chatService.meetingExists(meetingId);
+  if (!meetingExists) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Meeting not found',
+    });
+    return false;
+  }
+
+  const meetingInfo = await chatService.getMeetingInfo(meetingId);
+  if (!hasPermission(meetingInfo, userId, 'manage-roles')) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Only the host can change roles',
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Tell the socket why a role change failed
+ * @param {Socket} socket - Socket of the user changing roles
+ * @param {unknown} error - Error thrown by the role service
+ * @param {string} fallbackMessage - Message for unexpected errors
+ */
+function handleRoleError(socket: Socket, error: unknown, fallbackMessage: string): void {
+  // Rule violations from ChatService are safe to show
+  const expected = [
+    'Use a host transfer to change the host',
+    'User is not a participant of the meeting',
+    'The host changed in the meantime',
+  ];
+
+  if (error instanceof Error && expected.includes(error.message)) {
+    socket.emit(SocketEvents.ERROR, { message: error.message });
+    return;
+  }
+
+  logger.error(fallbackMessage, error);
+  socket.emit(SocketEvents.ERROR, { message: fallbackMessage });
+}
+
+/**
+ * Check that a socket is in a meeting room (joined, not waiting, kicked or banned)
+ * Emits an error to the socket when it is not.
+ * @param {Socket} socket - Socket
+ * @param {string} meetingId - Meeting ID
+ * @returns {boolean} True if the socket is in the meeting
+ */
+function authorizeMember(socket: Socket, meetingId: string): boolean {
+  if (!socket.rooms.has(meetingId)) {
+    socket.emit(SocketEvents.ERROR, {
+      code: 'NOT_IN_MEETING',
+      message: 'You are not in this meeting',
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check that a user may post in a meeting (in it, not muted and not a viewer)
+ * Emits an error to the socket when they may not.
+ * @param {Socket} socket - Sender socket
+ * @param {string} meetingId - Meeting ID
+ * @param {string} userId - Sender user ID
+ * @returns {Promise<boolean>} True if the user may post
+ */
+async function authorizeSend(socket: Socket, meetingId: string, userId: string): Promise<boolean> {
+  if (!authorizeMember(socket, meetingId)) {
+    return false;
+  }
+
+  if (await presenceStore.isMuted(meetingId, userId)) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'You are muted in this meeting',
+    });
+    return false;
+  }
+
+  const meetingInfo = await chatService.getMeetingInfo(meetingId);
+  if (!hasPermission(meetingInfo, userId, 'chat')) {
+    socket.emit(SocketEvents.ERROR, {
+      code: 'VIEWER_READ_ONLY',
+      message: 'Viewers cannot send messages',
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check that a moderation request is valid and comes from the host or a co-host
+ * Emits an error to the socket when it is not.
+ * @param {Socket} socket - Socket of the user requesting the action
+ * @param {ModerationPayload} payload - Moderation payload
+ * @returns {Promise<boolean>} True if the action is allowed
+ */
+async function authorizeModeration(socket: Socket, payload: ModerationPayload): Promise<boolean> {
+  const { meetingId, targetUserId } = payload || {};
+  const { userId } = getSocketUser(socket);
+
+  if (!meetingId || !targetUserId) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Meeting ID and target user ID are required',
+    });
+    return false;
+  }
+
+  const meetingExists = await chatService.meetingExists(meetingId);
+  if (!meetingExists) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Meeting not found',
+    });
+    return false;
+  }
+
+  const meetingInfo = await chatService.getMeetingInfo(meetingId);
+  if (!hasPermission(meetingInfo, userId, 'moderate')) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Only the host or a co-host can moderate the meeting',
+    });
+    return false;
+  }
+
+  if (targetUserId === userId) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'You cannot moderate yourself',
+    });
+    return false;
+  }
+
+  // Co-hosts cannot act on the host or other co-hosts
+  if (!outranks(meetingInfo, userId, targetUserId)) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'You can only moderate users with a lower role',
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check that a message edit/delete is valid and comes from the author or a moderator
+ * Emits an error to the socket when it is not.
+ * @param {Socket} socket - Socket of the user requesting the change
+ * @param {MessageUpdatePayload} payload - Edit or delete payload
+ * @returns {Promise<ChatMessage | null>} Current message if the change is allowed
+ */
+async function authorizeMessageUpdate(
+  socket: Socket,
+  payload: MessageUpdatePayload
+): Promise<ChatMessage | null> {
+  const { meetingId, messageId } = payload || {};
+  const { userId } = getSocketUser(socket);
+
+  if (!meetingId || !messageId) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Meeting ID and message ID are required',
+    });
+    return null;
+  }
+
+  if (!authorizeMember(socket, meetingId)) {
+    return null;
+  }
+
+  const message = await chatService.getMessage(meetingId, messageId);
+  if (!message) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Message not found',
+    });
+    return null;
+  }
+
+  if (message.deleted) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Message has been deleted',
+    });
+    return null;
+  }
+
+  if (message.userId !== userId) {
+    const meetingInfo = await chatService.getMeetingInfo(meetingId);
+    if (!hasPermission(meetingInfo, userId, 'moderate')) {
+      socket.emit(SocketEvents.ERROR, {
+        message: 'Only the author, the host or a co-host can change this message',
+      });
+      return null;
+    }
+  }
+
+  return message;
+}
+
+/**
+ * Add or remove the socket user's reaction and broadcast the new summary
+ * @param {Socket} socket - Socket of the reacting user
+ * @param {Server} io - Socket.IO server instance
+ * @param {ReactionPayload} payload - Reaction payload
+ * @param {boolean} reacted - True to add, false to remove
+ */
+async function handleReaction(
+  socket: Socket,
+  io: Server,
+  payload: ReactionPayload,
+  reacted: boolean
+): Promise<void> {
+  try {
+    const { meetingId, messageId, emoji } = payload || {};
+    const { userId } = getSocketUser(socket);
+
+    if (!meetingId || !messageId || !emoji) {
+      socket.emit(SocketEvents.ERROR, {
+        message: 'Meeting ID, message ID and emoji are required',
+      });
+      return;
+    }
+
+    if (!chatService.isValidEmoji(emoji)) {
+      socket.emit(SocketEvents.ERROR, {
+        message: 'Invalid emoji',
+      });
+      return;
+    }
+
+    if (!authorizeMember(socket, meetingId)) {
+      return;
+    }
+
+    const reactions = await chatService.setReaction(meetingId, messageId, emoji, userId, reacted);
+
+    // Broadcast the full summary so clients can replace it in place
+    io.to(meetingId).emit(SocketEvents.CHAT_REACTIONS, {
+      meetingId,
+      messageId,
+      reactions,
+    });
+
+  } catch (error) {
+    if ((error as Error).message === 'Message not found') {
+      socket.emit(SocketEvents.ERROR, {
+        message: 'Message not found',
+      });
+      return;
+    }
+    logger.error('Error updating reaction', error);
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Failed to update reaction',
+    });
+  }
+}
+
+/**
+ * Notify everyone in the meeting about a moderation action
+ * @param {Server} io - Socket.IO server instance
+ * @param {Socket} socket - Host socket
+ * @param {ModerationPayload} payload - Moderation payload
+ * @param {string} action - Action taken
+ * @param {string} username - Target username, if known
+ */
+function emitModerationAction(
+  io: Server,
+  socket: Socket,
+  payload: ModerationPayload,
+  action: 'kick' | 'mute' | 'unmute' | 'ban',
+  username?: string
+): void {
+  io.to(payload.meetingId).emit(SocketEvents.MODERATION_ACTION, {
+    meetingId: payload.meetingId,
+    action,
+    userId: payload.targetUserId,
+    username,
+    byUserId: getSocketUser(socket).userId,
+    reason: payload.reason,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Add a socket to a meeting: presence, room, participants and chat history
+ * The socket may live on another server instance (e.g. when admitted from the lobby).
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} socketId - ID of the joining socket
+ * @param {Meeting} meetingInfo - Meeting being joined
+ * @param {{ userId: string; username?: string }} user - Joining user
+ * @returns {Promise<boolean>} False if the meeting is full
+ */
+async function enterMeeting(
+  io: Server,
+  socketId: string,
+  meetingInfo: Meeting,
+  user: { userId: string; username?: string }
+): Promise<boolean> {
+  const { meetingId } = meetingInfo;
+  const { userId, username } = user;
+  const meetingMaxParticipants = meetingInfo.maxParticipants || MAX_PARTICIPANTS;
+
+  // Add user to real-time list (capacity check and insert are atomic)
+  // A user who is already connected from another device keeps their slot
+  const newUser: OnlineUser = {
+    socketIds: [socketId],
+    userId,
+    meetingId,
+    username,
+    joinedAt: new Date().toISOString(),
+  };
+  const { status, participants: currentParticipants } = await presenceStore.join(
+    newUser,
+    meetingMaxParticipants
+  );
+
+  // Check if meeting is full
+  if (status === 'full') {
+    io.to(socketId).emit(SocketEvents.ERROR, {
+      code: 'MEETING_FULL',
+      message: `Meeting is full (maximum ${meetingMaxParticipants} participants)`,
+    });
+    return false;
+  }
+
+  // Join the socket room
+  io.in(socketId).socketsJoin(meetingId);
+
+  // Add user to participants in Firestore if not already there
+  // This keeps a persistent record of everyone who has connected
+  await chatService.addParticipantToMeeting(meetingId, userId);
+
+  // Update active participants count in Firestore (real-time count)
+  await chatService.updateActiveParticipants(meetingId, currentParticipants.length);
+
+  // Notify all users in the meeting about who is currently online (real-time)
+  emitUsersOnline(io, meetingId, currentParticipants);
+
+  // Notify others that a new user joined (once, not per device)
+  if (status === 'joined') {
+    io.to(meetingId).except(socketId).emit(SocketEvents.USER_JOINED, {
+      userId,
+      username,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // Send recent chat history to the joining socket only
+  try {
+    const history = await chatService.getMessages(meetingId);
+    io.to(socketId).emit(SocketEvents.CHAT_HISTORY, {
+      meetingId,
+      ...history,
+    });
+  } catch (error) {
+    logger.warn(`Could not load chat history for meeting ${meetingId}`, error);
+  }
+
+  emitSessionToken(io, socketId, meetingId, userId);
+
+  logger.success(`User ${userId} joined meeting ${meetingId}`);
+
+  // The first user in a started meeting makes it live
+  await evaluateMeetingStatus(meetingId);
+
+  return true;
+}
+
+/**
+ * Handle user leaving a meeting
+ * The socket may live on another server instance (e.g. when kicked).
+ * The user only leaves once their last socket (device) is gone.
+ * @param {string} socketId - ID of the leaving socket
+ * @param {string} meetingId - Meeting ID
+ * @param {Server} io - Socket.IO server instance
+ */
+async function handleUserLeave(socketId: string, meetingId: string, io: Server): Promise<void> {
+  try {
+    // Remove from real-time list
+    const { user, left, participants } = await presenceStore.leave(meetingId, socketId);
+
+    if (!user) {
+      return;
+    }
+
+    // Leave the socket room
+    io.in(socketId).socketsLeave(meetingId);
+
+    // The user is still in the meeting from another device
+    if (!left) {
+      logger.info(`User ${user.userId} closed one device in meeting ${meetingId}`);
+      return;
+    }
+
+    // Clear a typing indicator left behind by the user
+    stopTyping(io, meetingId, user.userId);
+
+    // Notify others in the meeting
+    io.to(meetingId).emit(SocketEvents.USER_LEFT, {
+      userId: user.userId,
+      username: user.username,
+      timestamp: new Date().toISOString(),
+    });
+
+    // Update online users list (real-time)
+    emitUsersOnline(io, meetingId, participants);
+
+    // Update active participants count in Firestore (real-time count)
+    await chatService.updateActiveParticipants(meetingId, participants.length);
+
+    logger.info(`User ${user.userId} left meeting ${meetingId}`);
+
+    // Someone still in the room takes over when the host leaves a live meeting
+    const meetingInfo = await chatService.getMeetingInfo(meetingId);
+    const handOff = meetingInfo.hostId === user.userId && participants.length > 0
+      ? await roleService.handOff(meetingInfo, participants)
+      : null;
+
+    // Waiting users go to whoever can still admit them
+    const waiting = await lobbyService.getWaiting(meetingId);
+    if (waiting.length > 0) {
+      const currentMeetingInfo = handOff ? await chatService.getMeetingInfo(meetingId) : meetingInfo;
+      const admitterSocketIds = await getAdmitterSocketIds(currentMeetingInfo);
+
+      if (admitterSocketIds.length === 0) {
+        await closeLobby(io, meetingId, 'host-left');
+      } else if (handOff && !hasPermission(meetingInfo, handOff.hostId, 'admit')) {
+        // A participant who just became host has not seen the requests yet
+        const hostSocketIds = participants.find(p => p.userId === handOff.hostId)?.socketIds || [];
+        for (const entry of hostSocketIds.length > 0 ? waiting : []) {
+          emitLobbyRequest(io, hostSocketIds, meetingId, entry);
+        }
+      }
+    }
+
+    // Admissions last while the meeting is running
+    if (participants.length === 0) {
+      await lobbyService.resetAdmitted(meetingId);
+    }
+
+    // An empty meeting past its end is completed
+    await evaluateMeetingStatus(meetingId);
 
   } catch (error) {
     logger.error('Error handling user leave', error);
   }
 }
 
+/**
+ * Apply MULTI_MEETING_POLICY before a socket enters a meeting
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} socketId - Joining socket ID
+ * @param {string} meetingId - Meeting being joined
+ * @returns {Promise<boolean>} True if the socket may go on joining
+ */
+async function applyMeetingPolicy(io: Server, socketId: string, meetingId: string): Promise<boolean> {
+  if (MULTI_MEETING_POLICY === 'allow') {
+    return true;
+  }
+
+  const otherMeetingIds = (await presenceStore.getSocketMeetingIds(socketId))
+    .filter((id) => id !== meetingId);
+
+  if (otherMeetingIds.length === 0) {
+    return true;
+  }
+
+  if (MULTI_MEETING_POLICY === 'reject') {
+    io.to(socketId).emit(SocketEvents.ERROR, {
+      code: 'ALREADY_IN_MEETING',
+      message: 'Leave your current meeting before joining another one',
+      meetingIds: otherMeetingIds,
+    });
+    return false;
+  }
+
+  for (const otherMeetingId of otherMeetingIds) {
+    await handleUserLeave(socketId, otherMeetingId, io);
+  }
+  return true;
+}
+
+/**
+ * Handle a socket that disconnected without leaving
+ * A user's last socket keeps its slot for the grace period so the client can resume;
+ * the room only sees them as reconnecting.
+ * @param {string} socketId - ID of the dropped socket
+ * @param {string} meetingId - Meeting ID
+ * @param {OnlineUser} user - User the socket belongs to
+ * @param {Server} io - Socket.IO server instance
+ * @returns {Promise<void>}
+ */
+async function handleUserDrop(
+  socketId: string,
+  meetingId: string,
+  user: OnlineUser,
+  io: Server
+): Promise<void> {
+  if (!reconnectService.isEnabled() || user.socketIds.length > 1) {
+    await handleUserLeave(socketId, meetingId, io);
+    return;
+  }
+
+  try {
+    if (!(await presenceStore.setReconnecting(meetingId, socketId, new Date().toISOString()))) {
+      return;
+    }
+
+    reconnectService.hold(meetingId, socketId);
+    stopTyping(io, meetingId, user.userId);
+    emitUsersOnline(io, meetingId, await presenceStore.getParticipants(meetingId));
+
+    logger.info(`User ${user.userId} reconnecting to meeting ${meetingId}`);
+
+  } catch (error) {
+    logger.error('Error handling dropped connection', error);
+  }
+}
+
+/**
+ * Stop tracking a socket under this instance once it holds no slot (not even a reconnecting one)
+ * @param {string} socketId - Socket ID
+ * @returns {Promise<void>}
+ */
+async function releaseIdleSocket(socketId: string): Promise<void> {
+  if ((await presenceStore.getSocketMeetingIds(socketId)).length === 0) {
+    await presenceStore.releaseSocket(socketId);
+  }
+}
+
+/**
+ * Remove a socket of a stopped instance from every lobby and meeting
+ * Its grace period (if any) ended with that instance, so the user leaves right away.
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} socketId - Socket ID
+ * @returns {Promise<void>}
+ */
+async function removeOrphanedSocket(io: Server, socketId: string): Promise<void> {
+  for (const { meetingId, entry } of await lobbyService.removeSocket(socketId)) {
+    await notifyLobbyLeft(io, meetingId, entry);
+  }
+
+  for (const meetingId of await presenceStore.getSocketMeetingIds(socketId)) {
+    await handleUserLeave(socketId, meetingId, io);
+  }
+}
+
+/**
+ * Send the list of users online in a meeting
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} meetingId - Meeting ID
+ * @param {OnlineUser[]} participants - Users online
+ */
+function emitUsersOnline(io: Server, meetingId: string, participants: OnlineUser[]): void {
+  io.to(meetingId).emit(SocketEvents.USERS_ONLINE, {
+    meetingId,
+    participants: participants.map(p => ({
+      userId: p.userId,
+      username: p.username,
+      joinedAt: p.joinedAt,
+      reconnecting: Boolean(p.reconnectingSince),
+    })),
+    count: participants.length,
+  });
+}
+
+/**
+ * Give a socket the token it can resume its session with after a drop
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} socketId - Socket ID
+ * @param {string} meetingId - Meeting ID
+ * @param {string} userId - User ID
+ */
+function emitSessionToken(io: Server, socketId: string, meetingId: string, userId: string): void {
+  if (!reconnectService.isEnabled()) {
+    return;
+  }
+
+  try {
+    io.to(socketId).emit(SocketEvents.SESSION_TOKEN, {
+      meetingId,
+      resumeToken: signResumeToken({ uid: userId, mid: meetingId, sid: socketId }),
+      graceMs: reconnectService.graceMs,
+    });
+  } catch (error) {
+    logger.warn(`Could not issue resume token for meeting ${meetingId}`, error);
+  }
+}
+
+/**
+ * Send a resumed socket the messages it missed
+ * Without a known last message, the recent history is sent instead.
+ * @param {Socket} socket - Resumed socket
+ * @param {string} meetingId - Meeting ID
+ * @param {string} lastMessageId - Last message the client received (optional)
+ * @returns {Promise<void>}
+ */
+async function emitReplay(socket: Socket, meetingId: string, lastMessageId?: string): Promise<void> {
+  try {
+    let page;
+    try {
+      page = await chatService.getMessages(meetingId, lastMessageId ? { after: lastMessageId } : {});
+    } catch (error) {
+      if ((error as Error).message !== 'Message not found') {
+        throw error;
+      }
+      page = await chatService.getMessages(meetingId);
+    }
+
+    socket.emit(SocketEvents.CHAT_REPLAY, {
+      meetingId,
+      ...page,
+    });
+  } catch (error) {
+    logger.warn(`Could not replay messages for meeting ${meetingId}`, error);
+  }
+}
+
+/**
+ * Take every socket of a user out of a meeting (e.g. when kicked or banned)
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} meetingId - Meeting ID
+ * @param {OnlineUser} user - User to remove
+ * @returns {Promise<void>}
+ */
+async function removeFromMeeting(io: Server, meetingId: string, user: OnlineUser): Promise<void> {
+  for (const socketId of user.socketIds) {
+    await handleUserLeave(socketId, meetingId, io);
+  }
+}
+
+/**
+ * Re-check a meeting's lifecycle status after presence changed
+ * @param {string} meetingId - Meeting ID
+ * @returns {Promise<void>}
+ */
+async function evaluateMeetingStatus(meetingId: string): Promise<void> {
+  try {
+    await meetingScheduler.evaluate(meetingId);
+  } catch (error) {
+    logger.error(`Error evaluating status of meeting ${meetingId}`, error);
+  }
+}
+
+/**
+ * Get the sockets of users in the meeting who can admit from the lobby
+ * @param {Meeting} meetingInfo - Meeting
+ * @returns {Promise<string[]>} Socket IDs of the host and co-hosts in the room
+ */
+async function getAdmitterSocketIds(meetingInfo: Meeting): Promise<string[]> {
+  const participants = await presenceStore.getParticipants(meetingInfo.meetingId);
+
+  return participants
+    .filter(p => hasPermission(meetingInfo, p.userId, 'admit'))
+    .flatMap(p => p.socketIds);
+}
+
+/**
+ * Put a user in the lobby and ask the host and co-hosts to admit them
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} socketId - ID of the waiting socket
+ * @param {Meeting} meetingInfo - Meeting being joined
+ * @param {{ userId: string; username?: string }} user - Waiting user
+ * @returns {Promise<void>}
+ */
+async function waitInLobby(
+  io: Server,
+  socketId: string,
+  meetingInfo: Meeting,
+  user: { userId: string; username?: string }
+): Promise<void> {
+  const { meetingId } = meetingInfo;
+  const entry: LobbyEntry = {
+    socketId,
+    userId: user.userId,
+    username: user.username,
+    requestedAt: new Date().toISOString(),
+  };
+
+  const isNew = await lobbyService.enqueue(meetingId, entry);
+  await emitLobbyPositions(io, meetingId);
+
+  // A user who retries keeps their place without asking the host again
+  if (!isNew) {
+    return;
+  }
+
+  for (const admitterSocketId of await getAdmitterSocketIds(meetingInfo)) {
+    emitLobbyRequest(io, admitterSocketId, meetingId, entry);
+  }
+
+  logger.info(`User ${user.userId} waiting in lobby of meeting ${meetingId}`);
+}
+
+/**
+ * Ask the host or a co-host to admit or deny a waiting user
+ * @param {Server} io - Socket.IO server instance
+ * @param {string | string[]} admitterSocketId - Socket(s) of the host or co-host
+ * @param {string} meetingId - Meeting ID
+ * @param {LobbyEntry} entry - Waiting user
+ */
+function emitLobbyRequest(
+  io: Server,
+  admitterSocketId: string | string[],
+  meetingId: string,
+  entry: LobbyEntry
+): void {
+  io.to(admitterSocketId).emit(SocketEvents.LOBBY_REQUEST, {
+    meetingId,
+    userId: entry.userId,
+    username: entry.username,
+    requestedAt: entry.requestedAt,
+  });
+}
+
+/**
+ * Tell every waiting user their place in line
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} meetingId - Meeting ID
+ * @returns {Promise<void>}
+ */
+async function emitLobbyPositions(io: Server, meetingId: string): Promise<void> {
+  const waiting = await lobbyService.getWaiting(meetingId);
+
+  waiting.forEach((entry, index) => {
+    io.to(entry.socketId).emit(SocketEvents.LOBBY_WAITING, {
+      meetingId,
+      position: index + 1,
+      total: waiting.length,
+    });
+  });
+}
+
+/**
+ * Take a user out of a lobby they chose to leave
+ * @param {Server} io - Socket.IO server instance
+ * @param {string | undefined} meetingId - Meeting ID
+ * @param {string} userId - User ID
+ * @returns {Promise<void>}
+ */
+async function leaveLobby(io: Server, meetingId: string | undefined, userId: string): Promise<void> {
+  if (!meetingId) {
+    return;
+  }
+
+  const entry = await lobbyService.remove(meetingId, userId);
+  if (entry) {
+    await notifyLobbyLeft(io, meetingId, entry);
+  }
+}
+
+/**
+ * Tell the host and co-hosts a user stopped waiting and move the line up
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} meetingId - Meeting ID
+ * @param {LobbyEntry} entry - User who left the lobby
+ * @returns {Promise<void>}
+ */
+async function notifyLobbyLeft(io: Server, meetingId: string, entry: LobbyEntry): Promise<void> {
+  try {
+    const meetingInfo = await chatService.getMeetingInfo(meetingId);
+    for (const admitterSocketId of await getAdmitterSocketIds(meetingInfo)) {
+      io.to(admitterSocketId).emit(SocketEvents.LOBBY_CANCELLED, {
+        meetingId,
+        userId: entry.userId,
+        username: entry.username,
+      });
+    }
+
+    await emitLobbyPositions(io, meetingId);
+    logger.info(`User ${entry.userId} left lobby of meeting ${meetingId}`);
+
+  } catch (error) {
+    logger.error('Error handling lobby leave', error);
+  }
+}
+
+/**
+ * Send everyone in a meeting's lobby away
+ * @param {Server} io - Socket.IO server instance
+ * @param {string} meetingId - Meeting ID
+ * @param {string} reason - Why the lobby closed
+ * @returns {Promise<void>}
+ */
+async function closeLobby(io: Server, meetingId: string, reason: string): Promise<void> {
+  for (const entry of await lobbyService.clear(meetingId)) {
+    io.to(entry.socketId).emit(SocketEvents.LOBBY_CLOSED, {
+      meetingId,
+      reason,
+    });
+  }
+}
+
+/**
+ * Check that an admit/deny request is valid and comes from the host or a co-host
+ * Emits an error to the socket when it is not.
+ * @param {Socket} socket - Socket of the user deciding
+ * @param {LobbyPayload} payload - Lobby payload
+ * @returns {Promise<Meeting | null>} Meeting info if the decision is allowed
+ */
+async function authorizeLobbyDecision(
+  socket: Socket,
+  payload: LobbyPayload
+): Promise<Meeting | null> {
+  const { meetingId, targetUserId } = payload || {};
+  const { userId } = getSocketUser(socket);
+
+  if (!meetingId || !targetUserId) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Meeting ID and target user ID are required',
+    });
+    return null;
+  }
+
+  const meetingExists = await chatService.meetingExists(meetingId);
+  if (!meetingExists) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Meeting not found',
+    });
+    return null;
+  }
+
+  const meetingInfo = await chatService.getMeetingInfo(meetingId);
+  if (!hasPermission(meetingInfo, userId, 'admit')) {
+    socket.emit(SocketEvents.ERROR, {
+      message: 'Only the host or a co-host can admit or deny users',
+    });
+    return null;
+  }
+
+  return meetingInfo;
+}
+
 /**
  * Get active meetings count
- * @returns {number} Number of active meetings
+ * @returns {Promise<number>} Number of active meetings
  */
-export const getActiveMeetingsCount = (): number => {
-  return meetingRooms.size;
+export const getActiveMeetingsCount = (): Promise<number> => {
+  return presenceStore.countMeetings();
 };
 
 /**
  * Get total users count (currently connected)
- * @returns {number} Total number of connected users
+ * @returns {Promise<number>} Total number of connected users
  */
-export const getTotalUsersCount = (): number => {
-  let total = 0;
-  for (const participants of meetingRooms.values()) {
-    total += participants.length;
-  }
-  return total;
+export const getTotalUsersCount = (): Promise<number> => {
+  return presenceStore.countUsers();
 };
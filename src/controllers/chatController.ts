@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { ChatService } from '../services/chatService';
-import { createError } from '../middlewares/errorHandler';
+import { AppError, createError } from '../middlewares/errorHandler';
 import { getActiveMeetingsCount, getTotalUsersCount } from '../config/socket';
+import { toPublicMeetingInfo } from '../utils/publicMeeting';
 
 const chatService = new ChatService();
 
@@ -27,7 +28,7 @@ export const getMeetingInfo = async (
 
     res.status(200).json({
       success: true,
-      data: meetingInfo,
+      data: toPublicMeetingInfo(meetingInfo),
     });
   } catch (error: any) {
     if (error.statusCode) {
@@ -40,6 +41,97 @@ export const getMeetingInfo = async (
   }
 };
 
+/**
+ * Get chat history for a meeting (cursor-based pagination)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const getMeetingMessages = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId } = req.params;
+    const { before, after, limit } = req.query;
+
+    if (!meetingId) {
+      throw createError('Meeting ID is required', 400);
+    }
+
+    if (before && after) {
+      throw createError('Use either before or after, not both', 400);
+    }
+
+    const parsedLimit = limit ? parseInt(limit as string, 10) : undefined;
+    if (parsedLimit !== undefined && (isNaN(parsedLimit) || parsedLimit <= 0)) {
+      throw createError('Limit must be a positive number', 400);
+    }
+
+    const meetingExists = await chatService.meetingExists(meetingId);
+    if (!meetingExists) {
+      throw createError('Meeting not found', 404);
+    }
+
+    const page = await chatService.getMessages(meetingId, {
+      before: before as string | undefined,
+      after: after as string | undefined,
+      limit: parsedLimit,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: page,
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Message not found') {
+      next(createError('Cursor message not found', 404));
+    } else {
+      next(createError('Error fetching messages', 500));
+    }
+  }
+};
+
+/**
+ * Get a message thread (first message and its replies)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const getMessageThread = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId, messageId } = req.params;
+
+    if (!meetingId || !messageId) {
+      throw createError('Meeting ID and message ID are required', 400);
+    }
+
+    const thread = await chatService.getThread(meetingId, messageId);
+
+    res.status(200).json({
+      success: true,
+      data: thread,
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Message not found') {
+      next(createError('Message not found', 404));
+    } else {
+      next(createError('Error fetching thread', 500));
+    }
+  }
+};
+
 /**
  * Get server statistics
  * @param {Request} req - Express request object
@@ -52,8 +144,8 @@ export const getServerStats = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const activeMeetings = getActiveMeetingsCount();
-    const totalUsers = getTotalUsersCount();
+    const activeMeetings = await getActiveMeetingsCount();
+    const totalUsers = await getTotalUsersCount();
 
     res.status(200).json({
       success: true,
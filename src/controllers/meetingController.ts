@@ -1,7 +1,38 @@
 import { Request, Response, NextFunction } from 'express';
 import { ChatService } from '../services/chatService';
-import { createError } from '../middlewares/errorHandler';
+import { getMeetingScheduler } from '../services/meetingScheduler';
+import { getLobbyService } from '../services/lobbyService';
+import { getRoleService } from '../services/roleService';
+import { AppError, createError } from '../middlewares/errorHandler';
+import { Meeting } from '../types';
 import { logger } from '../utils/logger';
+import { canTransition, MEETING_STATUSES, normalizeMeetingStatus } from '../utils/meetingStatus';
+import { hashPasscode } from '../utils/passcode';
+import { ASSIGNABLE_ROLES, hasPermission, MeetingAction } from '../utils/permissions';
+import { toPublicMeeting } from '../utils/publicMeeting';
+import { expandRecurrence, MAX_SERIES_OCCURRENCES, validateRecurrenceRule } from '../utils/recurrence';
+import {
+  DEFAULT_TIMEZONE,
+  getDateInTimeZone,
+  isValidDate,
+  isValidTime,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from '../utils/timezone';
+
+const SERIES_SCOPES = ['occurrence', 'series'];
+const VISIBILITIES = ['open', 'invite-only', 'passcode'];
+
+// Passcode length limits
+const MIN_PASSCODE_LENGTH = 4;
+const MAX_PASSCODE_LENGTH = 64;
+
+// Invite link lifetime (default 7 days, at most 30 days)
+const INVITE_LINK_TTL_MINUTES = parseInt(process.env.INVITE_LINK_TTL_MINUTES || '10080', 10);
+const MAX_INVITE_LINK_TTL_MINUTES = 30 * 24 * 60;
+
+// Frontend page that redeems invite tokens (optional), e.g. https://app.example.com/invite
+const INVITE_LINK_BASE_URL = process.env.INVITE_LINK_BASE_URL;
 
 const chatService = new ChatService();
 
@@ -13,6 +44,64 @@ const generateMeetingId = (): string => {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
 
+/**
+ * Check that a user's role allows an action on a meeting
+ * @param {any} meeting - Meeting
+ * @param {string} userId - Acting user ID
+ * @param {MeetingAction} action - Action
+ * @param {string} message - Error message if it is not allowed
+ * @throws {AppError} 403 if the role does not allow the action
+ */
+const requirePermission = (
+  meeting: Meeting,
+  userId: string,
+  action: MeetingAction,
+  message: string
+): void => {
+  if (!hasPermission(meeting, userId, action)) {
+    throw createError(message, 403);
+  }
+};
+
+/**
+ * Find the first occurrence of a series
+ * Roles can differ per occurrence, so whole-series changes are checked against it.
+ * @param {Meeting[]} occurrences - Occurrences sorted by date and time
+ * @returns {Meeting} The first occurrence, or the earliest one left if it was deleted
+ */
+const getSeriesRoot = (occurrences: Meeting[]): Meeting =>
+  occurrences.find((occurrence) => occurrence.occurrenceIndex === 0) || occurrences[0];
+
+/**
+ * Validate a passcode from a request body
+ * @param {unknown} passcode - Passcode
+ * @throws {AppError} 400 if it is not a string of the allowed length
+ */
+const validatePasscode = (passcode: unknown): void => {
+  if (
+    typeof passcode !== 'string' ||
+    passcode.length < MIN_PASSCODE_LENGTH ||
+    passcode.length > MAX_PASSCODE_LENGTH
+  ) {
+    throw createError(
+      `Passcode must be ${MIN_PASSCODE_LENGTH} to ${MAX_PASSCODE_LENGTH} characters`,
+      400
+    );
+  }
+};
+
+/**
+ * Validate a list of user IDs from a request body
+ * @param {unknown} userIds - User IDs
+ * @param {string} field - Field name for the error message
+ * @throws {AppError} 400 if it is not an array of non-empty strings
+ */
+const validateUserIds = (userIds: unknown, field: string): void => {
+  if (!Array.isArray(userIds) || !userIds.every((id) => typeof id === 'string' && id)) {
+    throw createError(`${field} must be an array of user IDs`, 400);
+  }
+};
+
 /**
  * Create a new meeting
  * @param {Request} req - Express request object
@@ -31,8 +120,14 @@ export const createMeeting = async (
       description, 
       date, 
       time, 
+      timezone = DEFAULT_TIMEZONE,
       estimatedDuration, 
-      maxParticipants 
+      maxParticipants,
+      recurrence,
+      visibility = 'open',
+      passcode,
+      invitedUsers = [],
+      lobbyEnabled = false
     } = req.body;
 
     if (!userId) {
@@ -43,44 +138,116 @@ export const createMeeting = async (
       throw createError('Title, date, and time are required', 400);
     }
 
-    // Validate date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(date)) {
-      throw createError('Date must be in YYYY-MM-DD format', 400);
+    // Validate date (YYYY-MM-DD, a real calendar day)
+    if (!isValidDate(date)) {
+      throw createError('Date must be a valid date in YYYY-MM-DD format', 400);
+    }
+
+    // Validate time (HH:mm, 24h)
+    if (!isValidTime(time)) {
+      throw createError('Time must be a valid time in HH:mm format', 400);
     }
 
-    // Validate time format (HH:mm)
-    const timeRegex = /^\d{2}:\d{2}$/;
-    if (!timeRegex.test(time)) {
-      throw createError('Time must be in HH:mm format', 400);
+    // Validate timezone (IANA name, e.g. America/Bogota)
+    if (!isValidTimeZone(timezone)) {
+      throw createError('Timezone must be a valid IANA timezone', 400);
+    }
+
+    // Validate who may join
+    if (!VISIBILITIES.includes(visibility)) {
+      throw createError(`Visibility must be one of: ${VISIBILITIES.join(', ')}`, 400);
+    }
+
+    if (visibility === 'passcode' || passcode !== undefined) {
+      validatePasscode(passcode);
+    }
+
+    validateUserIds(invitedUsers, 'Invited users');
+
+    if (typeof lobbyEnabled !== 'boolean') {
+      throw createError('lobbyEnabled must be a boolean', 400);
+    }
+
+    // Dates of every occurrence (a single one without recurrence)
+    let dates = [date];
+    if (recurrence !== undefined) {
+      const recurrenceError = validateRecurrenceRule(recurrence, date);
+      if (recurrenceError) {
+        throw createError(recurrenceError, 400);
+      }
+
+      const occurrences = expandRecurrence(date, recurrence);
+      if (!occurrences) {
+        throw createError(`Recurrence generates more than ${MAX_SERIES_OCCURRENCES} occurrences`, 400);
+      }
+      if (occurrences.length === 0) {
+        throw createError('Recurrence generates no occurrences', 400);
+      }
+      dates = occurrences;
     }
 
     const meetingId = generateMeetingId();
 
-    const meetingData = {
+    const meetingData: Meeting = {
       meetingId,
       hostId: userId,
       title,
       description: description || '',
       date,
       time,
+      timezone,
+      startsAt: zonedTimeToUtc(date, time, timezone).toISOString(),
       estimatedDuration: estimatedDuration || 60, // Default 60 minutes
       maxParticipants: maxParticipants || parseInt(process.env.MAX_PARTICIPANTS || '10', 10),
       participants: [userId],
       activeParticipants: 0,
+      visibility,
+      invitedUsers: [...new Set<string>(invitedUsers)],
+      ...(passcode !== undefined && { passcodeHash: hashPasscode(passcode) }),
+      lobbyEnabled,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
-      status: 'active',
+      status: 'scheduled',
     };
 
-    await chatService.createMeeting(meetingData);
+    if (recurrence === undefined) {
+      await chatService.createMeeting(meetingData);
 
-    logger.success(`Meeting created: ${meetingId} by user ${userId}`);
+      logger.success(`Meeting created: ${meetingId} by user ${userId}`);
+
+      res.status(201).json({
+        success: true,
+        message: 'Meeting created successfully',
+        data: toPublicMeeting(meetingData),
+      });
+      return;
+    }
+
+    // Every occurrence is its own meeting (own chat room and status)
+    const seriesId = generateMeetingId();
+    const occurrences = dates.map((occurrenceDate, index) => ({
+      ...meetingData,
+      meetingId: index === 0 ? meetingId : generateMeetingId(),
+      date: occurrenceDate,
+      startsAt: zonedTimeToUtc(occurrenceDate, time, timezone).toISOString(),
+      seriesId,
+      occurrenceIndex: index,
+      recurrence,
+    }));
+
+    await chatService.createMeetingSeries(occurrences);
+
+    logger.success(`Meeting series created: ${seriesId} (${occurrences.length} occurrences) by user ${userId}`);
 
     res.status(201).json({
       success: true,
-      message: 'Meeting created successfully',
-      data: meetingData,
+      message: 'Meeting series created successfully',
+      data: toPublicMeeting(occurrences[0]),
+      series: {
+        seriesId,
+        count: occurrences.length,
+        occurrences: occurrences.map(toPublicMeeting),
+      },
     });
   } catch (error: any) {
     if (error.statusCode) {
@@ -114,7 +281,7 @@ export const getUserMeetings = async (
 
     res.status(200).json({
       success: true,
-      data: meetings,
+      data: meetings.map(toPublicMeeting),
     });
   } catch (error: any) {
     if (error.statusCode) {
@@ -126,6 +293,44 @@ export const getUserMeetings = async (
   }
 };
 
+/**
+ * Get unread message counts per meeting for a user
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const getUnreadCounts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    if (!userId) {
+      throw createError('User ID is required', 400);
+    }
+
+    const counts = await chatService.getUnreadCounts(userId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        total: counts.reduce((total, count) => total + count.unread, 0),
+        meetings: counts,
+      },
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else {
+      logger.error('Error fetching unread counts', error);
+      next(createError('Error fetching unread counts', 500));
+    }
+  }
+};
+
 /**
  * Get meeting by ID
  * @param {Request} req - Express request object
@@ -148,7 +353,7 @@ export const getMeetingById = async (
 
     res.status(200).json({
       success: true,
-      data: meeting,
+      data: toPublicMeeting(meeting),
     });
   } catch (error: any) {
     if (error.statusCode) {
@@ -162,6 +367,49 @@ export const getMeetingById = async (
   }
 };
 
+/**
+ * Get every occurrence of a recurring meeting
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const getSeriesMeetings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { seriesId } = req.params;
+
+    if (!seriesId) {
+      throw createError('Series ID is required', 400);
+    }
+
+    const occurrences = await chatService.getSeriesMeetings(seriesId);
+
+    if (occurrences.length === 0) {
+      throw createError('Meeting series not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        seriesId,
+        count: occurrences.length,
+        occurrences: occurrences.map(toPublicMeeting),
+      },
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else {
+      logger.error('Error fetching meeting series', error);
+      next(createError('Error fetching meeting series', 500));
+    }
+  }
+};
+
 /**
  * Join a meeting
  * @param {Request} req - Express request object
@@ -175,16 +423,30 @@ export const joinMeeting = async (
 ): Promise<void> => {
   try {
     const { meetingId } = req.params;
-    const { userId } = req.body;
+    const { userId, passcode } = req.body;
 
     if (!meetingId || !userId) {
       throw createError('Meeting ID and User ID are required', 400);
     }
 
+    // Throws 'Meeting not found' (mapped to 404 below) if it does not exist
     const meeting = await chatService.getMeetingInfo(meetingId);
 
-    if (!meeting) {
-      throw createError('Meeting not found', 404);
+    // Same rules as join:meeting over sockets
+    const rejection = chatService.checkJoin(meeting, userId, passcode);
+    if (rejection) {
+      throw createError(rejection.message, rejection.statusCode, rejection.code);
+    }
+
+    // Waiting room: the host admits users over the socket connection (same rule as join:meeting)
+    if (await getLobbyService().needsLobby(meeting, userId)) {
+      res.status(202).json({
+        success: true,
+        code: 'LOBBY_REQUIRED',
+        message: 'Join over the socket connection to wait for the host to admit you',
+        data: toPublicMeeting(meeting),
+      });
+      return;
     }
 
     // Add user to participants if not already there
@@ -197,11 +459,13 @@ export const joinMeeting = async (
     res.status(200).json({
       success: true,
       message: 'Joined meeting successfully',
-      data: updatedMeeting,
+      data: toPublicMeeting(updatedMeeting),
     });
   } catch (error: any) {
     if (error.statusCode) {
       next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404, 'MEETING_NOT_FOUND'));
     } else {
       logger.error('Error joining meeting', error);
       next(createError('Error joining meeting', 500));
@@ -260,12 +524,16 @@ export const deleteMeeting = async (
 ): Promise<void> => {
   try {
     const { meetingId } = req.params;
-    const { userId } = req.body;
+    const { userId, scope = 'occurrence' } = req.body;
 
     if (!meetingId || !userId) {
       throw createError('Meeting ID and User ID are required', 400);
     }
 
+    if (!SERIES_SCOPES.includes(scope)) {
+      throw createError(`Scope must be one of: ${SERIES_SCOPES.join(', ')}`, 400);
+    }
+
     const meeting = await chatService.getMeetingInfo(meetingId);
 
     if (!meeting) {
@@ -273,8 +541,30 @@ export const deleteMeeting = async (
     }
 
     // Only host can delete the meeting
-    if (meeting.hostId !== userId) {
-      throw createError('Only the host can delete the meeting', 403);
+    requirePermission(meeting, userId, 'delete', 'Only the host can delete the meeting');
+
+    if (scope === 'series' && meeting.seriesId) {
+      const occurrences = await chatService.getSeriesMeetings(meeting.seriesId);
+
+      requirePermission(
+        getSeriesRoot(occurrences),
+        userId,
+        'delete',
+        'Only the host of the series can delete the whole series'
+      );
+
+      for (const occurrence of occurrences) {
+        await chatService.deleteMeeting(occurrence.meetingId);
+      }
+
+      logger.success(`Meeting series deleted: ${meeting.seriesId} (${occurrences.length} occurrences)`);
+
+      res.status(200).json({
+        success: true,
+        message: 'Meeting series deleted successfully',
+        deletedOccurrences: occurrences.length,
+      });
+      return;
     }
 
     await chatService.deleteMeeting(meetingId);
@@ -314,29 +604,50 @@ export const updateMeeting = async (
       description, 
       date, 
       time, 
+      timezone,
       estimatedDuration, 
       maxParticipants, 
-      status 
+      status,
+      visibility,
+      passcode,
+      lobbyEnabled,
+      scope = 'occurrence'
     } = req.body;
 
     if (!meetingId || !userId) {
       throw createError('Meeting ID and User ID are required', 400);
     }
 
-    // Validate date format if provided
-    if (date) {
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      if (!dateRegex.test(date)) {
-        throw createError('Date must be in YYYY-MM-DD format', 400);
-      }
+    if (!SERIES_SCOPES.includes(scope)) {
+      throw createError(`Scope must be one of: ${SERIES_SCOPES.join(', ')}`, 400);
     }
 
-    // Validate time format if provided
-    if (time) {
-      const timeRegex = /^\d{2}:\d{2}$/;
-      if (!timeRegex.test(time)) {
-        throw createError('Time must be in HH:mm format', 400);
-      }
+    // Validate date if provided
+    if (date && !isValidDate(date)) {
+      throw createError('Date must be a valid date in YYYY-MM-DD format', 400);
+    }
+
+    // Validate time if provided
+    if (time && !isValidTime(time)) {
+      throw createError('Time must be a valid time in HH:mm format', 400);
+    }
+
+    // Validate timezone if provided
+    if (timezone && !isValidTimeZone(timezone)) {
+      throw createError('Timezone must be a valid IANA timezone', 400);
+    }
+
+    // Validate visibility and passcode if provided
+    if (visibility && !VISIBILITIES.includes(visibility)) {
+      throw createError(`Visibility must be one of: ${VISIBILITIES.join(', ')}`, 400);
+    }
+
+    if (passcode !== undefined) {
+      validatePasscode(passcode);
+    }
+
+    if (lobbyEnabled !== undefined && typeof lobbyEnabled !== 'boolean') {
+      throw createError('lobbyEnabled must be a boolean', 400);
     }
 
     const meeting = await chatService.getMeetingInfo(meetingId);
@@ -345,9 +656,48 @@ export const updateMeeting = async (
       throw createError('Meeting not found', 404);
     }
 
-    // Only host can update the meeting
-    if (meeting.hostId !== userId) {
-      throw createError('Only the host can update the meeting', 403);
+    // Only the host and co-hosts can update the meeting
+    requirePermission(meeting, userId, 'update', 'Only the host or a co-host can update the meeting');
+
+    // A passcode meeting needs a passcode, either new or already stored
+    if (visibility === 'passcode' && passcode === undefined && !meeting.passcodeHash) {
+      throw createError('Passcode is required for passcode meetings', 400);
+    }
+
+    // Validate the status change against the meeting lifecycle
+    if (status) {
+      const nextStatus = normalizeMeetingStatus(status);
+      const currentStatus = normalizeMeetingStatus(meeting.status);
+
+      if (!MEETING_STATUSES.includes(nextStatus)) {
+        throw createError(`Status must be one of: ${MEETING_STATUSES.join(', ')}`, 400);
+      }
+
+      if (nextStatus !== currentStatus && !canTransition(currentStatus, nextStatus)) {
+        throw createError(`Cannot change status from ${currentStatus} to ${nextStatus}`, 409);
+      }
+    }
+
+    // Whole-series edits apply to the occurrences that haven't happened yet
+    const applyToSeries = scope === 'series' && Boolean(meeting.seriesId);
+
+    if (applyToSeries && date) {
+      throw createError('Date can only be changed for a single occurrence', 400);
+    }
+
+    if (applyToSeries && status && normalizeMeetingStatus(status) !== 'cancelled') {
+      throw createError('Only cancelled can be applied to a whole series', 400);
+    }
+
+    const occurrences = applyToSeries ? await chatService.getSeriesMeetings(meeting.seriesId) : [];
+
+    if (applyToSeries) {
+      requirePermission(
+        getSeriesRoot(occurrences),
+        userId,
+        'update',
+        'Only the host or a co-host of the series can update the whole series'
+      );
     }
 
     const updateData: any = {
@@ -358,20 +708,76 @@ export const updateMeeting = async (
     if (description) updateData.description = description;
     if (date) updateData.date = date;
     if (time) updateData.time = time;
+    if (timezone) updateData.timezone = timezone;
     if (estimatedDuration) updateData.estimatedDuration = estimatedDuration;
     if (maxParticipants) updateData.maxParticipants = maxParticipants;
-    if (status) updateData.status = status;
+    if (visibility) updateData.visibility = visibility;
+    if (passcode !== undefined) updateData.passcodeHash = hashPasscode(passcode);
+    if (lobbyEnabled !== undefined) updateData.lobbyEnabled = lobbyEnabled;
+
+    // Keep the absolute start instant in line with the schedule
+    const rescheduled = Boolean(date || time || timezone);
+    const getStartsAt = (occurrence: Meeting): string =>
+      zonedTimeToUtc(
+        date || occurrence.date,
+        time || occurrence.time,
+        timezone || occurrence.timezone || DEFAULT_TIMEZONE
+      ).toISOString();
+
+    // A status change goes through the scheduler so connected clients are told,
+    // and is written together with the other fields
+    const saveOccurrence = async (occurrence: Meeting): Promise<void> => {
+      const data = {
+        ...updateData,
+        ...(rescheduled && { startsAt: getStartsAt(occurrence) }),
+      };
+
+      if (status && normalizeMeetingStatus(status) !== normalizeMeetingStatus(occurrence.status)) {
+        await getMeetingScheduler().setStatus(occurrence.meetingId, status, data);
+      } else {
+        await chatService.updateMeeting(occurrence.meetingId, data);
+      }
+    };
+
+    try {
+      await saveOccurrence(meeting);
+    } catch (caught) {
+      const error = caught as Error;
+      // The scheduler may have moved the meeting on since the check above
+      if (
+        error.message?.startsWith('Cannot change status') ||
+        error.message === 'The status changed in the meantime'
+      ) {
+        throw createError(error.message, 409);
+      }
+      throw error;
+    }
+
+    let updatedOccurrences = 1;
 
-    await chatService.updateMeeting(meetingId, updateData);
+    if (applyToSeries) {
+      const upcoming = occurrences.filter(
+        (occurrence) =>
+          occurrence.meetingId !== meetingId &&
+          normalizeMeetingStatus(occurrence.status) === 'scheduled'
+      );
+
+      for (const occurrence of upcoming) {
+        await saveOccurrence(occurrence);
+      }
+
+      updatedOccurrences += upcoming.length;
+    }
 
     const updatedMeeting = await chatService.getMeetingInfo(meetingId);
 
-    logger.success(`Meeting updated: ${meetingId}`);
+    logger.success(`Meeting updated: ${meetingId}${applyToSeries ? ` and ${updatedOccurrences - 1} more in series ${meeting.seriesId}` : ''}`);
 
     res.status(200).json({
       success: true,
       message: 'Meeting updated successfully',
-      data: updatedMeeting,
+      data: toPublicMeeting(updatedMeeting),
+      ...(applyToSeries && { updatedOccurrences }),
     });
   } catch (error: any) {
     if (error.statusCode) {
@@ -396,17 +802,22 @@ export const getTodayMeetings = async (
 ): Promise<void> => {
   try {
     const { userId } = req.params;
+    const timezone = (req.query.timezone as string) || DEFAULT_TIMEZONE;
 
     if (!userId) {
       throw createError('User ID is required', 400);
     }
 
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split('T')[0];
+    if (!isValidTimeZone(timezone)) {
+      throw createError('Timezone must be a valid IANA timezone', 400);
+    }
+
+    // Get today's date in YYYY-MM-DD format, in the caller's timezone
+    const today = getDateInTimeZone(new Date(), timezone);
     
-    logger.info(`Fetching today meetings for user: ${userId}, date: ${today}`);
+    logger.info(`Fetching today meetings for user: ${userId}, date: ${today} (${timezone})`);
 
-    const meetings = await chatService.getTodayMeetings(userId, today);
+    const meetings = await chatService.getTodayMeetings(userId, today, timezone);
 
     logger.success(`Found ${meetings.length} meetings for user ${userId} on ${today}`);
 
@@ -414,8 +825,9 @@ export const getTodayMeetings = async (
       success: true,
       data: {
         date: today,
+        timezone,
         count: meetings.length,
-        meetings: meetings,
+        meetings: meetings.map(toPublicMeeting),
       },
     });
   } catch (error: any) {
@@ -433,3 +845,511 @@ export const getTodayMeetings = async (
   }
 };
 
+
+/**
+ * Get the users invited to a meeting (host or co-host)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const getMeetingInvites = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId } = req.params;
+    const userId = req.query.userId as string;
+
+    if (!meetingId || !userId) {
+      throw createError('Meeting ID and User ID are required', 400);
+    }
+
+    const meeting = await chatService.getMeetingInfo(meetingId);
+
+    requirePermission(meeting, userId, 'manage-invites', 'Only the host or a co-host can view invitations');
+
+    res.status(200).json({
+      success: true,
+      data: {
+        meetingId,
+        visibility: meeting.visibility || 'open',
+        invitedUsers: meeting.invitedUsers || [],
+      },
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404));
+    } else {
+      logger.error('Error fetching invitations', error);
+      next(createError('Error fetching invitations', 500));
+    }
+  }
+};
+
+/**
+ * Invite users to a meeting (host or co-host)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const inviteToMeeting = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId } = req.params;
+    const { userId, userIds } = req.body;
+
+    if (!meetingId || !userId) {
+      throw createError('Meeting ID and User ID are required', 400);
+    }
+
+    validateUserIds(userIds, 'User IDs');
+
+    if (userIds.length === 0) {
+      throw createError('User IDs must not be empty', 400);
+    }
+
+    const meeting = await chatService.getMeetingInfo(meetingId);
+
+    requirePermission(meeting, userId, 'manage-invites', 'Only the host or a co-host can invite users');
+
+    const invitedUsers = await chatService.inviteUsers(meetingId, userIds);
+
+    logger.success(`Invited ${userIds.length} users to meeting ${meetingId}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Users invited successfully',
+      data: { meetingId, invitedUsers },
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404));
+    } else {
+      logger.error('Error inviting users', error);
+      next(createError('Error inviting users', 500));
+    }
+  }
+};
+
+/**
+ * Remove a user's invitation to a meeting (host or co-host)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const removeMeetingInvite = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId, invitedUserId } = req.params;
+    const { userId } = req.body;
+
+    if (!meetingId || !userId) {
+      throw createError('Meeting ID and User ID are required', 400);
+    }
+
+    const meeting = await chatService.getMeetingInfo(meetingId);
+
+    requirePermission(meeting, userId, 'manage-invites', 'Only the host or a co-host can remove invitations');
+
+    if (!meeting.invitedUsers?.includes(invitedUserId)) {
+      throw createError('User is not invited to this meeting', 404);
+    }
+
+    const invitedUsers = await chatService.uninviteUser(meetingId, invitedUserId);
+
+    logger.success(`Removed invitation of user ${invitedUserId} to meeting ${meetingId}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation removed successfully',
+      data: { meetingId, invitedUsers },
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404));
+    } else {
+      logger.error('Error removing invitation', error);
+      next(createError('Error removing invitation', 500));
+    }
+  }
+};
+
+/**
+ * Create an invite link for a meeting (host or co-host)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const createInviteLink = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId } = req.params;
+    const {
+      userId,
+      expiresInMinutes = INVITE_LINK_TTL_MINUTES,
+      maxUses,
+      singleUse = false,
+    } = req.body;
+
+    if (!meetingId || !userId) {
+      throw createError('Meeting ID and User ID are required', 400);
+    }
+
+    if (
+      !Number.isInteger(expiresInMinutes) ||
+      expiresInMinutes < 1 ||
+      expiresInMinutes > MAX_INVITE_LINK_TTL_MINUTES
+    ) {
+      throw createError(
+        `Expiry must be between 1 and ${MAX_INVITE_LINK_TTL_MINUTES} minutes`,
+        400
+      );
+    }
+
+    if (maxUses !== undefined && (!Number.isInteger(maxUses) || maxUses < 1)) {
+      throw createError('Max uses must be a positive integer', 400);
+    }
+
+    const meeting = await chatService.getMeetingInfo(meetingId);
+
+    requirePermission(meeting, userId, 'manage-invites', 'Only the host or a co-host can create invite links');
+
+    const { link, token } = await chatService.createInviteLink(
+      meetingId,
+      userId,
+      expiresInMinutes * 60 * 1000,
+      singleUse ? 1 : maxUses ?? null
+    );
+
+    logger.success(`Invite link ${link.tokenId} created for meeting ${meetingId}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Invite link created successfully',
+      data: {
+        ...link,
+        token,
+        ...(INVITE_LINK_BASE_URL && {
+          url: `${INVITE_LINK_BASE_URL}?token=${encodeURIComponent(token)}`,
+        }),
+      },
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404));
+    } else {
+      logger.error('Error creating invite link', error);
+      next(createError('Error creating invite link', 500));
+    }
+  }
+};
+
+/**
+ * Get a meeting's invite links (host or co-host)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const getInviteLinks = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId } = req.params;
+    const userId = req.query.userId as string;
+
+    if (!meetingId || !userId) {
+      throw createError('Meeting ID and User ID are required', 400);
+    }
+
+    const meeting = await chatService.getMeetingInfo(meetingId);
+
+    requirePermission(meeting, userId, 'manage-invites', 'Only the host or a co-host can view invite links');
+
+    const links = await chatService.getInviteLinks(meetingId);
+
+    res.status(200).json({
+      success: true,
+      data: links,
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404));
+    } else {
+      logger.error('Error fetching invite links', error);
+      next(createError('Error fetching invite links', 500));
+    }
+  }
+};
+
+/**
+ * Revoke one invite link, or every link of the meeting without a token ID (host or co-host)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const revokeInviteLinks = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId, tokenId } = req.params;
+    const { userId } = req.body;
+
+    if (!meetingId || !userId) {
+      throw createError('Meeting ID and User ID are required', 400);
+    }
+
+    const meeting = await chatService.getMeetingInfo(meetingId);
+
+    requirePermission(meeting, userId, 'manage-invites', 'Only the host or a co-host can revoke invite links');
+
+    if (tokenId) {
+      const links = await chatService.getInviteLinks(meetingId);
+      if (!links.some((link) => link.tokenId === tokenId)) {
+        throw createError('Invite link not found', 404);
+      }
+    }
+
+    const revoked = await chatService.revokeInviteLinks(
+      meetingId,
+      tokenId ? [tokenId] : undefined
+    );
+
+    logger.success(`Revoked ${revoked} invite links of meeting ${meetingId}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invite links revoked successfully',
+      data: { meetingId, revoked },
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404));
+    } else {
+      logger.error('Error revoking invite links', error);
+      next(createError('Error revoking invite links', 500));
+    }
+  }
+};
+
+/**
+ * Redeem an invite link: add the user to the meeting's participants
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const redeemInviteLink = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { token, userId } = req.body;
+
+    if (!token || !userId) {
+      throw createError('Token and User ID are required', 400);
+    }
+
+    const payload = chatService.readInviteToken(String(token));
+
+    if (!payload) {
+      throw createError('Invalid invite link', 400, 'INVALID_INVITE');
+    }
+
+    if (payload.exp <= Date.now()) {
+      throw createError('Invite link has expired', 410, 'INVITE_EXPIRED');
+    }
+
+    const meeting = await chatService.getMeetingInfo(payload.mid);
+
+    if (meeting.bannedUsers?.includes(userId)) {
+      throw createError('You have been banned from this meeting', 403, 'USER_BANNED');
+    }
+
+    const status = normalizeMeetingStatus(meeting.status);
+    if (status === 'cancelled' || status === 'completed') {
+      throw createError(
+        status === 'cancelled' ? 'Meeting has been cancelled' : 'Meeting has already ended',
+        409,
+        status === 'cancelled' ? 'MEETING_CANCELLED' : 'MEETING_COMPLETED'
+      );
+    }
+
+    const result = await chatService.redeemInviteLink(payload.mid, payload.tid, userId);
+
+    if (result === 'not-found') {
+      throw createError('Invalid invite link', 400, 'INVALID_INVITE');
+    }
+    if (result === 'revoked') {
+      throw createError('Invite link has been revoked', 410, 'INVITE_REVOKED');
+    }
+    if (result === 'exhausted') {
+      throw createError('Invite link has no uses left', 410, 'INVITE_EXHAUSTED');
+    }
+
+    // The link grants access: invite-only meetings need the user on the list,
+    // passcode meetings let participants rejoin without the passcode
+    if (meeting.visibility === 'invite-only') {
+      await chatService.inviteUsers(payload.mid, [userId]);
+    }
+    await chatService.addParticipantToMeeting(payload.mid, userId);
+
+    const updatedMeeting = await chatService.getMeetingInfo(payload.mid);
+
+    logger.success(`User ${userId} redeemed invite link ${payload.tid} of meeting ${payload.mid}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invite link redeemed successfully',
+      data: toPublicMeeting(updatedMeeting),
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404, 'MEETING_NOT_FOUND'));
+    } else {
+      logger.error('Error redeeming invite link', error);
+      next(createError('Error redeeming invite link', 500));
+    }
+  }
+};
+
+/**
+ * Change a participant's role (host only)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const setMeetingRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId, targetUserId } = req.params;
+    const { userId, role } = req.body;
+
+    if (!meetingId || !userId) {
+      throw createError('Meeting ID and User ID are required', 400);
+    }
+
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      throw createError(`Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`, 400);
+    }
+
+    const meeting = await chatService.getMeetingInfo(meetingId);
+
+    requirePermission(meeting, userId, 'manage-roles', 'Only the host can change roles');
+
+    const change = await getRoleService().setRole(meetingId, targetUserId, role, userId);
+
+    logger.success(`User ${targetUserId} is now ${role} in meeting ${meetingId}`);
+
+    res.status(200).json({
+      success: true,
+      message: change ? 'Role changed successfully' : 'User already has this role',
+      data: { meetingId, userId: targetUserId, role },
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404));
+    } else if (error.message === 'Use a host transfer to change the host') {
+      next(createError(error.message, 400));
+    } else if (error.message === 'User is not a participant of the meeting') {
+      next(createError(error.message, 404));
+    } else if (error.message === 'The host changed in the meantime') {
+      next(createError(error.message, 409));
+    } else {
+      logger.error('Error changing role', error);
+      next(createError('Error changing role', 500));
+    }
+  }
+};
+
+/**
+ * Hand a meeting over to another participant (host only)
+ * The previous host becomes a co-host.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const transferMeetingHost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { meetingId } = req.params;
+    const { userId, newHostId } = req.body;
+
+    if (!meetingId || !userId || !newHostId) {
+      throw createError('Meeting ID, User ID and new host ID are required', 400);
+    }
+
+    const meeting = await chatService.getMeetingInfo(meetingId);
+
+    requirePermission(meeting, userId, 'manage-roles', 'Only the host can transfer the meeting');
+
+    await getRoleService().transferHost(meetingId, newHostId);
+
+    const updatedMeeting = await chatService.getMeetingInfo(meetingId);
+
+    logger.success(`Meeting ${meetingId} transferred from ${userId} to ${newHostId}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Host transferred successfully',
+      data: toPublicMeeting(updatedMeeting),
+    });
+  } catch (caught) {
+    const error = caught as AppError;
+    if (error.statusCode) {
+      next(error);
+    } else if (error.message === 'Meeting not found') {
+      next(createError('Meeting not found', 404));
+    } else if (error.message === 'User is not a participant of the meeting') {
+      next(createError(error.message, 404));
+    } else if (error.message === 'The host changed in the meantime') {
+      next(createError(error.message, 409));
+    } else {
+      logger.error('Error transferring host', error);
+      next(createError('Error transferring host', 500));
+    }
+  }
+};
@@ -0,0 +1,60 @@
+import { MessageFilter } from './messageFilter';
+
+/**
+ * What to do with a message containing a blocked word
+ */
+export type BlockedWordsMode = 'mask' | 'reject';
+
+/**
+ * Escape a string for use inside a regular expression
+ * @param {string} value - Raw string
+ * @returns {string} Escaped string
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Mask or reject messages containing blocked words (whole words, case-insensitive)
+ * @param {string[]} words - Blocked words
+ * @param {BlockedWordsMode} mode - 'mask' replaces each letter with *, 'reject' refuses the message
+ * @returns {MessageFilter} Filter
+ */
+export const createBlockedWordsFilter = (
+  words: string[],
+  mode: BlockedWordsMode = 'mask'
+): MessageFilter => {
+  const cleanWords = words.map((word) => word.trim()).filter(Boolean);
+
+  // Unicode-aware word boundaries so accented words are matched whole
+  const pattern = cleanWords.length
+    ? new RegExp(
+        `(?<![\\p{L}\\p{N}_])(?:${cleanWords.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`,
+        'giu'
+      )
+    : null;
+
+  return {
+    name: 'blocked-words',
+    apply: ({ message }) => {
+      if (!pattern) {
+        return { allowed: true, message };
+      }
+
+      if (mode === 'reject') {
+        pattern.lastIndex = 0;
+        if (pattern.test(message)) {
+          return {
+            allowed: false,
+            rule: 'blocked-words',
+            reason: 'Message contains blocked words',
+          };
+        }
+        return { allowed: true, message };
+      }
+
+      return {
+        allowed: true,
+        message: message.replace(pattern, (match) => '*'.repeat(Array.from(match).length)),
+      };
+    },
+  };
+};
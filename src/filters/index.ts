@@ -0,0 +1,62 @@
+import { BlockedWordsMode, createBlockedWordsFilter } from './blockedWordsFilter';
+import { createLinkFilter } from './linkFilter';
+import { createMaxLengthFilter } from './maxLengthFilter';
+import { MessageFilter } from './messageFilter';
+import { createRepeatedMessageFilter } from './repeatedMessageFilter';
+
+export {
+  MessageFilter,
+  MessageFilterContext,
+  MessageFilterResult,
+  runMessageFilters,
+} from './messageFilter';
+export { createMaxLengthFilter } from './maxLengthFilter';
+export { createBlockedWordsFilter, BlockedWordsMode } from './blockedWordsFilter';
+export { createLinkFilter, LinkFilterOptions } from './linkFilter';
+export { createRepeatedMessageFilter } from './repeatedMessageFilter';
+
+/**
+ * Split a comma separated env value
+ * @param {string | undefined} value - Env value
+ * @returns {string[]} Items
+ */
+const parseList = (value: string | undefined): string[] => {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Parse a positive number from an env value
+ * @param {string | undefined} value - Env value
+ * @param {number} fallback - Default when unset or not a positive number
+ * @returns {number} Parsed value
+ */
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Build the chat message filters from env configuration
+ * @returns {MessageFilter[]} Filters, in the order they run
+ */
+export const createMessageFilters = (): MessageFilter[] => {
+  const blockedWordsMode: BlockedWordsMode =
+    process.env.CHAT_BLOCKED_WORDS_MODE === 'reject' ? 'reject' : 'mask';
+
+  return [
+    createMaxLengthFilter(parsePositiveInt(process.env.CHAT_MAX_MESSAGE_LENGTH, 1000)),
+    createBlockedWordsFilter(parseList(process.env.CHAT_BLOCKED_WORDS), blockedWordsMode),
+    createLinkFilter({
+      allowLinks: process.env.CHAT_ALLOW_LINKS !== 'false',
+      allowedDomains: parseList(process.env.CHAT_LINK_ALLOWLIST),
+      deniedDomains: parseList(process.env.CHAT_LINK_DENYLIST),
+    }),
+    createRepeatedMessageFilter(
+      parsePositiveInt(process.env.CHAT_MAX_REPEATED_MESSAGES, 3),
+      parsePositiveInt(process.env.CHAT_REPEAT_WINDOW_MS, 30000)
+    ),
+  ];
+};
@@ -0,0 +1,82 @@
+import { MessageFilter } from './messageFilter';
+
+/**
+ * Link rules
+ * @interface LinkFilterOptions
+ */
+export interface LinkFilterOptions {
+  allowLinks: boolean; // false rejects every link
+  allowedDomains: string[]; // If not empty, only these domains (and subdomains) are allowed
+  deniedDomains: string[]; // Always rejected (and subdomains)
+}
+
+// http(s):// URLs, www. hosts and bare hosts such as evil.com/x
+// A bare host needs a letters-only last label and is skipped inside emails (user@host),
+// so "1.5" or "bob@example.com" are not links, but file names like "notes.txt" are.
+const LINK_REGEX =
+  /\b(?:https?:\/\/|www\.)[^\s<>"']+|(?<![\w@.-])[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,63}\b(?![@.-]?\w)(?:[/:?#][^\s<>"']*)?/gi;
+
+/**
+ * Get the lowercase hostname of a link
+ * @param {string} link - Link found in a message
+ * @returns {string | null} Hostname, or null if it cannot be parsed
+ */
+const getHostname = (link: string): string | null => {
+  try {
+    const url = new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`);
+    return url.hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check if a hostname is a domain or one of its subdomains
+ * @param {string} hostname - Hostname
+ * @param {string[]} domains - Domains
+ * @returns {boolean} True if it matches
+ */
+const matchesDomain = (hostname: string, domains: string[]): boolean => {
+  return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+};
+
+/**
+ * Reject messages with links that break the allow/deny rules
+ * @param {LinkFilterOptions} options - Link rules
+ * @returns {MessageFilter} Filter
+ */
+export const createLinkFilter = (options: LinkFilterOptions): MessageFilter => {
+  const normalize = (domains: string[]) =>
+    domains.map((domain) => domain.trim().toLowerCase().replace(/^www\./, '')).filter(Boolean);
+  const allowedDomains = normalize(options.allowedDomains);
+  const deniedDomains = normalize(options.deniedDomains);
+
+  return {
+    name: 'links',
+    apply: ({ message }) => {
+      const links = message.match(LINK_REGEX) || [];
+
+      for (const link of links) {
+        const hostname = getHostname(link);
+
+        const allowed =
+          options.allowLinks &&
+          hostname !== null &&
+          !matchesDomain(hostname, deniedDomains) &&
+          (allowedDomains.length === 0 || matchesDomain(hostname, allowedDomains));
+
+        if (!allowed) {
+          return {
+            allowed: false,
+            rule: 'links',
+            reason: options.allowLinks
+              ? `Links to ${hostname || link} are not allowed`
+              : 'Links are not allowed',
+          };
+        }
+      }
+
+      return { allowed: true, message };
+    },
+  };
+};
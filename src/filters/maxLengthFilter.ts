@@ -0,0 +1,22 @@
+import { MessageFilter } from './messageFilter';
+
+/**
+ * Reject messages longer than a maximum number of characters
+ * @param {number} maxLength - Maximum length
+ * @returns {MessageFilter} Filter
+ */
+export const createMaxLengthFilter = (maxLength: number): MessageFilter => ({
+  name: 'max-length',
+  apply: ({ message }) => {
+    // Count code points so emoji are not counted twice
+    if (Array.from(message).length > maxLength) {
+      return {
+        allowed: false,
+        rule: 'max-length',
+        reason: `Message is too long (maximum ${maxLength} characters)`,
+      };
+    }
+
+    return { allowed: true, message };
+  },
+});
@@ -0,0 +1,55 @@
+/**
+ * Chat message filter pipeline
+ * @module filters/messageFilter
+ */
+
+/**
+ * Message being checked
+ * @interface MessageFilterContext
+ */
+export interface MessageFilterContext {
+  meetingId: string;
+  userId: string;
+  message: string;
+}
+
+/**
+ * Outcome of a filter: pass (possibly with changed text) or reject
+ */
+export type MessageFilterResult =
+  | { allowed: true; message: string }
+  | { allowed: false; rule: string; reason: string };
+
+/**
+ * A single moderation rule
+ * @interface MessageFilter
+ */
+export interface MessageFilter {
+  name: string;
+  apply(context: MessageFilterContext): MessageFilterResult;
+}
+
+/**
+ * Run filters in order; each one sees the text produced by the previous one
+ * @param {MessageFilter[]} filters - Filters to run
+ * @param {MessageFilterContext} context - Message to check
+ * @returns {MessageFilterResult} Final text, or the first rejection
+ */
+export const runMessageFilters = (
+  filters: MessageFilter[],
+  context: MessageFilterContext
+): MessageFilterResult => {
+  let message = context.message;
+
+  for (const filter of filters) {
+    const result = filter.apply({ ...context, message });
+
+    if (!result.allowed) {
+      return result;
+    }
+
+    message = result.message;
+  }
+
+  return { allowed: true, message };
+};
@@ -0,0 +1,60 @@
+import { MessageFilter } from './messageFilter';
+
+interface RepeatState {
+  text: string;
+  count: number;
+  lastAt: number;
+}
+
+// Drop expired entries once the map grows past this size
+const PRUNE_THRESHOLD = 1000;
+
+/**
+ * Reject a user sending the same text over and over in a meeting
+ * Text is compared ignoring case and extra spaces.
+ * @param {number} maxRepeats - Identical messages in a row allowed
+ * @param {number} windowMs - Repeats further apart than this start a new count
+ * @returns {MessageFilter} Filter (keeps its own state)
+ */
+export const createRepeatedMessageFilter = (maxRepeats: number, windowMs: number): MessageFilter => {
+  const lastMessages = new Map<string, RepeatState>();
+
+  const prune = (now: number): void => {
+    for (const [key, state] of lastMessages.entries()) {
+      if (now - state.lastAt > windowMs) {
+        lastMessages.delete(key);
+      }
+    }
+  };
+
+  return {
+    name: 'repeated-messages',
+    apply: ({ meetingId, userId, message }) => {
+      const now = Date.now();
+      const key = `${meetingId}:${userId}`;
+      const text = message.toLowerCase().replace(/\s+/g, ' ').trim();
+      const state = lastMessages.get(key);
+
+      if (lastMessages.size > PRUNE_THRESHOLD) {
+        prune(now);
+      }
+
+      if (state && state.text === text && now - state.lastAt <= windowMs) {
+        if (state.count >= maxRepeats) {
+          return {
+            allowed: false,
+            rule: 'repeated-messages',
+            reason: 'Please do not repeat the same message',
+          };
+        }
+
+        state.count += 1;
+        state.lastAt = now;
+        return { allowed: true, message };
+      }
+
+      lastMessages.set(key, { text, count: 1, lastAt: now });
+      return { allowed: true, message };
+    },
+  };
+};
@@ -7,10 +7,12 @@ import { logger } from '../utils/logger';
  */
 export class AppError extends Error {
   statusCode: number;
+  code?: string;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: string) {
     super(message);
     this.statusCode = statusCode;
+    this.code = code;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -19,10 +21,11 @@ export class AppError extends Error {
  * Create a custom error
  * @param {string} message - Error message
  * @param {number} statusCode - HTTP status code
+ * @param {string} code - Machine-readable error code (optional)
  * @returns {AppError} Custom error instance
  */
-export const createError = (message: string, statusCode: number): AppError => {
-  return new AppError(message, statusCode);
+export const createError = (message: string, statusCode: number, code?: string): AppError => {
+  return new AppError(message, statusCode, code);
 };
 
 /**
@@ -40,6 +43,7 @@ export const errorHandler = (
 ): void => {
   const statusCode = (err as AppError).statusCode || 500;
   const message = err.message || 'Internal server error';
+  const code = (err as AppError).code;
 
   logger.error(`Error: ${message}`, {
     statusCode,
@@ -51,6 +55,7 @@ export const errorHandler = (
   res.status(statusCode).json({
     success: false,
     message,
+    ...(code && { code }),
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
   });
 };
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler';
+import { BucketOptions, TokenBucketLimiter } from '../utils/tokenBucket';
+
+// How often idle buckets are dropped
+const PRUNE_INTERVAL_MS = 60000;
+
+/**
+ * Create a per-IP rate limiting middleware
+ * @param {BucketOptions} options - Bucket size and refill speed
+ * @returns Express middleware
+ */
+export const createRateLimiter = (options: BucketOptions) => {
+  const limiter = new TokenBucketLimiter(options);
+  setInterval(() => limiter.prune(), PRUNE_INTERVAL_MS).unref();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = req.ip || req.socket.remoteAddress || 'unknown';
+
+    if (limiter.consume(key)) {
+      next();
+      return;
+    }
+
+    res.setHeader('Retry-After', Math.ceil(limiter.retryAfterMs(key) / 1000));
+    next(createError('Too many requests, please try again later', 429));
+  };
+};
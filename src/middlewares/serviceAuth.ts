@@ -0,0 +1,198 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler';
+import { getRedisClient, isRedisConfigured } from '../config/redis';
+import { logger } from '../utils/logger';
+
+// Header names sent by the User Backend
+const API_KEY_HEADER = 'x-api-key';
+const SIGNATURE_HEADER = 'x-signature';
+const TIMESTAMP_HEADER = 'x-timestamp';
+const NONCE_HEADER = 'x-nonce';
+
+// Maximum clock skew (and nonce lifetime) for signed requests
+const MAX_SKEW_MS = parseInt(process.env.SERVICE_AUTH_MAX_SKEW_SECONDS || '300', 10) * 1000;
+
+// Nonces seen inside the skew window, with their expiry time (without Redis)
+const usedNonces = new Map<string, number>();
+
+// Redis key prefix for nonces, shared by every instance behind the load balancer
+const NONCE_KEY_PREFIX = 'service-auth:nonce:';
+
+/**
+ * Request with the raw body captured by express.json({ verify })
+ * @interface RawBodyRequest
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * Capture the raw request body so signatures can be checked byte for byte
+ * Pass it as the `verify` option of express.json()
+ * @param {Request} req - Express request
+ * @param {Response} _res - Express response
+ * @param {Buffer} buf - Raw body
+ */
+export const captureRawBody = (req: Request, _res: Response, buf: Buffer): void => {
+  (req as RawBodyRequest).rawBody = buf;
+};
+
+/**
+ * Read the accepted API keys (comma separated, so old and new keys can overlap while rotating)
+ * @returns {string[]} Accepted API keys
+ */
+const getApiKeys = (): string[] => {
+  return (process.env.SERVICE_API_KEYS || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Compare two strings in constant time
+ * @param {string} a - First value
+ * @param {string} b - Second value
+ * @returns {boolean} True if equal
+ */
+const safeEqual = (a: string, b: string): boolean => {
+  const aBuf = Buffer.from(a);
+  const bBuf = Buffer.from(b);
+  return aBuf.length === bBuf.length && timingSafeEqual(aBuf, bBuf);
+};
+
+/**
+ * Build the HMAC signature for a request
+ * Payload: `${timestamp}.${nonce}.${METHOD}.${originalUrl}.${rawBody}`
+ * @param {string} secret - Shared secret
+ * @param {string} timestamp - Unix time in milliseconds
+ * @param {string} nonce - Unique request nonce
+ * @param {RawBodyRequest} req - Express request
+ * @returns {string} Hex encoded HMAC-SHA256
+ */
+export const signRequest = (
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  req: Pick<RawBodyRequest, 'method' | 'originalUrl' | 'rawBody'>
+): string => {
+  const body = req.rawBody ? req.rawBody.toString('utf8') : '';
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${req.method.toUpperCase()}.${req.originalUrl}.${body}`)
+    .digest('hex');
+};
+
+/**
+ * Drop nonces whose window has passed
+ * @param {number} now - Current time in milliseconds
+ */
+const pruneNonces = (now: number): void => {
+  for (const [nonce, expiresAt] of usedNonces.entries()) {
+    if (expiresAt <= now) {
+      usedNonces.delete(nonce);
+    }
+  }
+};
+
+/**
+ * Record a nonce until it expires
+ * With REDIS_URL set the nonce is stored in Redis, so a request replayed
+ * against another instance is refused too.
+ * @param {string} nonce - Request nonce
+ * @param {number} expiresAt - When the nonce may be forgotten (milliseconds)
+ * @param {number} now - Current time in milliseconds
+ * @returns {Promise<boolean>} False if the nonce was already used
+ */
+const claimNonce = async (nonce: string, expiresAt: number, now: number): Promise<boolean> => {
+  if (isRedisConfigured()) {
+    const result = await getRedisClient().set(`${NONCE_KEY_PREFIX}${nonce}`, '1', {
+      PX: Math.max(expiresAt - now, 1),
+      NX: true,
+    });
+    return result === 'OK';
+  }
+
+  pruneNonces(now);
+  if (usedNonces.has(nonce)) {
+    return false;
+  }
+  usedNonces.set(nonce, expiresAt);
+  return true;
+};
+
+/**
+ * Verify an HMAC signed request
+ * @param {RawBodyRequest} req - Express request
+ * @param {string} secret - Shared secret
+ * @returns {Promise<void>}
+ * @throws {AppError} 401 if the signature, timestamp or nonce is invalid
+ */
+const verifySignedRequest = async (req: RawBodyRequest, secret: string): Promise<void> => {
+  const signature = req.header(SIGNATURE_HEADER);
+  const timestamp = req.header(TIMESTAMP_HEADER);
+  const nonce = req.header(NONCE_HEADER);
+
+  if (!signature || !timestamp || !nonce) {
+    throw createError('Missing request signature headers', 401);
+  }
+
+  const now = Date.now();
+  const requestTime = parseInt(timestamp, 10);
+  if (isNaN(requestTime) || Math.abs(now - requestTime) > MAX_SKEW_MS) {
+    throw createError('Request timestamp is outside the allowed window', 401);
+  }
+
+  const expected = signRequest(secret, timestamp, nonce, req);
+  if (!safeEqual(signature, expected)) {
+    throw createError('Invalid request signature', 401);
+  }
+
+  if (!(await claimNonce(nonce, requestTime + MAX_SKEW_MS, now))) {
+    throw createError('Request nonce has already been used', 401);
+  }
+};
+
+/**
+ * Service-to-service authentication middleware
+ * Accepts either a valid API key (SERVICE_API_KEYS) or an HMAC signed
+ * request (SERVICE_HMAC_SECRET). Without any credentials configured,
+ * requests are rejected unless SERVICE_AUTH_DISABLED=true outside production.
+ * @param {Request} req - Express request
+ * @param {Response} _res - Express response
+ * @param {NextFunction} next - Express next function
+ */
+export const serviceAuth = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const apiKeys = getApiKeys();
+    const hmacSecret = process.env.SERVICE_HMAC_SECRET;
+
+    if (apiKeys.length === 0 && !hmacSecret) {
+      if (process.env.NODE_ENV === 'production' || process.env.SERVICE_AUTH_DISABLED !== 'true') {
+        throw createError('Service authentication is not configured', 500);
+      }
+      logger.warn('Service authentication is disabled, allowing internal request');
+      next();
+      return;
+    }
+
+    const apiKey = req.header(API_KEY_HEADER);
+    if (apiKey && apiKeys.some((key) => safeEqual(apiKey, key))) {
+      next();
+      return;
+    }
+
+    if (hmacSecret && req.header(SIGNATURE_HEADER)) {
+      await verifySignedRequest(req as RawBodyRequest, hmacSecret);
+      next();
+      return;
+    }
+
+    throw createError('Unauthorized service request', 401);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,130 @@
+import { Socket } from 'socket.io';
+import { getAuthInstance } from '../config/firebase';
+import { getStorageDriver } from '../repositories';
+import { SocketUser } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Verifies a handshake token and resolves the identity it belongs to
+ * Swap it out (e.g. in tests) to avoid calling Firebase
+ */
+export type TokenVerifier = (token: string) => Promise<SocketUser>;
+
+/**
+ * Verify a Firebase ID token with firebase-admin
+ * @param {string} token - Firebase ID token
+ * @returns {Promise<SocketUser>} Verified identity
+ */
+export const firebaseTokenVerifier: TokenVerifier = async (token) => {
+  const decoded = await getAuthInstance().verifyIdToken(token);
+
+  return {
+    userId: decoded.uid,
+    username: decoded.name,
+  };
+};
+
+/**
+ * Offline verifier for local development: the token is `<userId>` or `<userId>:<username>`
+ * Anyone can claim any identity with it, so it is refused in production.
+ * @param {string} token - Dev token
+ * @returns {Promise<SocketUser>} Claimed identity
+ */
+export const devTokenVerifier: TokenVerifier = async (token) => {
+  const separator = token.indexOf(':');
+  const userId = separator === -1 ? token : token.slice(0, separator);
+  const username = separator === -1 ? undefined : token.slice(separator + 1);
+
+  if (!userId) {
+    throw new Error('Dev token must start with a user ID');
+  }
+
+  return { userId, username };
+};
+
+/**
+ * Supported handshake verifiers
+ */
+export type SocketAuthVerifier = 'firebase' | 'dev';
+
+/**
+ * Get the configured handshake verifier (SOCKET_AUTH_VERIFIER)
+ * Defaults to dev with in-memory storage, where Firebase is not initialized, and to firebase otherwise.
+ * @returns {TokenVerifier} Token verifier
+ * @throws {Error} If SOCKET_AUTH_VERIFIER has an unknown value, or is dev in production
+ */
+export const getTokenVerifier = (): TokenVerifier => {
+  const verifier = (
+    process.env.SOCKET_AUTH_VERIFIER || (getStorageDriver() === 'memory' ? 'dev' : 'firebase')
+  ).toLowerCase();
+
+  if (verifier !== 'firebase' && verifier !== 'dev') {
+    throw new Error(`Unknown SOCKET_AUTH_VERIFIER "${verifier}". Use "firebase" or "dev".`);
+  }
+
+  if (verifier === 'dev') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The dev socket verifier cannot be used in production');
+    }
+
+    logger.warn('SOCKET_AUTH_VERIFIER=dev: socket handshakes are not verified');
+    return devTokenVerifier;
+  }
+
+  return firebaseTokenVerifier;
+};
+
+/**
+ * Extract the token from the handshake
+ * Accepts `auth.token` (socket.io-client) or an `Authorization: Bearer` header
+ * @param {Socket} socket - Socket instance
+ * @returns {string | undefined} Raw token
+ */
+const extractToken = (socket: Socket): string | undefined => {
+  const authToken = socket.handshake.auth?.token;
+  if (typeof authToken === 'string' && authToken) {
+    return authToken;
+  }
+
+  const header = socket.handshake.headers.authorization;
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+
+  return undefined;
+};
+
+/**
+ * Create a Socket.IO middleware that authenticates the handshake
+ * and binds the verified identity to the socket
+ * @param {TokenVerifier} verifyToken - Token verifier
+ * @returns Socket.IO middleware
+ */
+export const createSocketAuthMiddleware = (verifyToken: TokenVerifier = firebaseTokenVerifier) => {
+  return async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+    const token = extractToken(socket);
+
+    if (!token) {
+      next(new Error('Authentication required'));
+      return;
+    }
+
+    try {
+      const user = await verifyToken(token);
+      socket.data.user = user;
+      next();
+    } catch (error) {
+      logger.warn(`Socket authentication failed: ${socket.id}`, error);
+      next(new Error('Invalid authentication token'));
+    }
+  };
+};
+
+/**
+ * Get the identity bound to an authenticated socket
+ * @param {Socket} socket - Socket instance
+ * @returns {SocketUser} Verified identity
+ */
+export const getSocketUser = (socket: Socket): SocketUser => {
+  return socket.data.user as SocketUser;
+};
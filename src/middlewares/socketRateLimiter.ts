@@ -0,0 +1,101 @@
+import { Socket } from 'socket.io';
+import {
+  SOCKET_DEFAULT_RATE_LIMIT,
+  SOCKET_EVENT_RATE_LIMITS,
+  SOCKET_MAX_STRIKES,
+  SOCKET_STRIKE_WINDOW_MS,
+} from '../config/rateLimits';
+import { SocketEvents } from '../types';
+import { TokenBucketLimiter } from '../utils/tokenBucket';
+import { logger } from '../utils/logger';
+import { getSocketUser } from './socketAuth';
+
+// How often idle buckets are dropped
+const PRUNE_INTERVAL_MS = 60000;
+
+interface Strikes {
+  count: number;
+  windowStart: number;
+}
+
+/**
+ * Create a per-socket rate limiter for incoming events
+ * Each event type has its own token buckets, one per socket and one per user
+ * (shared by all of a user's sockets). Throttled events are dropped with a
+ * RATE_LIMITED error, and sockets that keep hitting the limit are disconnected.
+ * @returns {(socket: Socket) => void} Function that attaches the limiter to a socket
+ */
+export const createSocketRateLimiter = () => {
+  const limiters = new Map<string, TokenBucketLimiter>();
+  const strikes = new Map<string, Strikes>();
+
+  setInterval(() => limiters.forEach((limiter) => limiter.prune()), PRUNE_INTERVAL_MS).unref();
+
+  const getLimiter = (event: string): TokenBucketLimiter => {
+    const limitKey = SOCKET_EVENT_RATE_LIMITS[event] ? event : '*';
+    let limiter = limiters.get(limitKey);
+
+    if (!limiter) {
+      limiter = new TokenBucketLimiter(SOCKET_EVENT_RATE_LIMITS[event] || SOCKET_DEFAULT_RATE_LIMIT);
+      limiters.set(limitKey, limiter);
+    }
+
+    return limiter;
+  };
+
+  /**
+   * Count a throttled event and tell if the socket went over the strike limit
+   */
+  const addStrike = (socketId: string): boolean => {
+    const now = Date.now();
+    let current = strikes.get(socketId);
+
+    if (!current || now - current.windowStart > SOCKET_STRIKE_WINDOW_MS) {
+      current = { count: 0, windowStart: now };
+      strikes.set(socketId, current);
+    }
+
+    current.count += 1;
+    return current.count > SOCKET_MAX_STRIKES;
+  };
+
+  return (socket: Socket): void => {
+    const { userId } = getSocketUser(socket);
+
+    // Buckets owned by this socket, dropped on disconnect
+    const socketBuckets = new Map<string, TokenBucketLimiter>();
+
+    socket.use((packet, next) => {
+      const event = String(packet[0]);
+      const limiter = getLimiter(event);
+      const socketKey = `socket:${socket.id}:${event}`;
+      const userKey = `user:${userId}:${event}`;
+      socketBuckets.set(socketKey, limiter);
+
+      // Check both before consuming so one bucket is not drained by rejected events
+      if (limiter.retryAfterMs(socketKey) === 0 && limiter.retryAfterMs(userKey) === 0) {
+        limiter.consume(socketKey);
+        limiter.consume(userKey);
+        next();
+        return;
+      }
+
+      socket.emit(SocketEvents.ERROR, {
+        code: 'RATE_LIMITED',
+        event,
+        message: 'Too many requests, slow down',
+        retryAfterMs: Math.max(limiter.retryAfterMs(socketKey), limiter.retryAfterMs(userKey)),
+      });
+
+      if (addStrike(socket.id)) {
+        logger.warn(`Disconnecting socket ${socket.id} (user ${userId}) for flooding`);
+        socket.disconnect(true);
+      }
+    });
+
+    socket.on(SocketEvents.DISCONNECT, () => {
+      strikes.delete(socket.id);
+      socketBuckets.forEach((limiter, key) => limiter.delete(key));
+    });
+  };
+};
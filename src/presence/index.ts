@@ -0,0 +1,55 @@
+import { isRedisConfigured } from '../config/redis';
+import { logger } from '../utils/logger';
+import { MemoryPresenceStore } from './memoryPresenceStore';
+import { PresenceStore } from './presenceStore';
+import { RedisPresenceStore } from './redisPresenceStore';
+
+export { PresenceStore, JoinResult, LeaveResult, RemovedLobbyEntry } from './presenceStore';
+export { MemoryPresenceStore } from './memoryPresenceStore';
+export { RedisPresenceStore } from './redisPresenceStore';
+
+/**
+ * Supported presence drivers
+ */
+export type PresenceDriver = 'memory' | 'redis';
+
+let presenceStore: PresenceStore | null = null;
+
+/**
+ * Get the configured presence driver
+ * PRESENCE_DRIVER wins; otherwise redis when REDIS_URL is set, else memory.
+ * @returns {PresenceDriver} Presence driver
+ * @throws {Error} If PRESENCE_DRIVER has an unknown value
+ */
+export const getPresenceDriver = (): PresenceDriver => {
+  const driver = (process.env.PRESENCE_DRIVER || (isRedisConfigured() ? 'redis' : 'memory'))
+    .toLowerCase();
+
+  if (driver !== 'memory' && driver !== 'redis') {
+    throw new Error(`Unknown PRESENCE_DRIVER "${driver}". Use "memory" or "redis".`);
+  }
+
+  return driver;
+};
+
+/**
+ * Get the shared presence store for the configured driver
+ * @returns {PresenceStore} Presence store
+ */
+export const getPresenceStore = (): PresenceStore => {
+  if (presenceStore) return presenceStore;
+
+  const driver = getPresenceDriver();
+  presenceStore = driver === 'redis' ? new RedisPresenceStore() : new MemoryPresenceStore();
+
+  logger.info(`Using ${driver} presence store`);
+  return presenceStore;
+};
+
+/**
+ * Replace the shared presence store (e.g. with a fresh in-memory one in tests)
+ * @param {PresenceStore | null} newStore - Store to use, or null to reset
+ */
+export const setPresenceStore = (newStore: PresenceStore | null): void => {
+  presenceStore = newStore;
+};
@@ -0,0 +1,269 @@
+import { LobbyEntry, OnlineUser } from '../types';
+import { JoinResult, LeaveResult, PresenceStore, RemovedLobbyEntry } from './presenceStore';
+
+/**
+ * Copy a presence list so callers can't change the stored one
+ * @param {OnlineUser[]} participants - Stored participants
+ * @returns {OnlineUser[]} Copies
+ */
+const copyParticipants = (participants: OnlineUser[]): OnlineUser[] => {
+  return participants.map((p) => ({ ...p, socketIds: [...p.socketIds] }));
+};
+
+/**
+ * In-process presence store (single server instance only)
+ * @class MemoryPresenceStore
+ */
+export class MemoryPresenceStore implements PresenceStore {
+  // Store online users by meeting
+  private meetingRooms = new Map<string, OnlineUser[]>();
+
+  // Muted user IDs by meeting
+  private mutedUsers = new Map<string, Set<string>>();
+
+  // Meeting IDs by socket (reverse index of meetingRooms)
+  private socketMeetings = new Map<string, Set<string>>();
+
+  // Users waiting in each meeting's lobby, in arrival order
+  private lobbies = new Map<string, LobbyEntry[]>();
+
+  // User IDs admitted from each meeting's lobby
+  private admittedUsers = new Map<string, Set<string>>();
+
+  async getParticipants(meetingId: string): Promise<OnlineUser[]> {
+    return copyParticipants(this.meetingRooms.get(meetingId) || []);
+  }
+
+  async join(user: OnlineUser, maxParticipants: number): Promise<JoinResult> {
+    const participants = this.meetingRooms.get(user.meetingId) || [];
+
+    // A user connecting from another device keeps a single slot
+    const existingUser = participants.find((p) => p.userId === user.userId);
+    if (existingUser) {
+      delete existingUser.reconnectingSince;
+      for (const socketId of user.socketIds) {
+        if (!existingUser.socketIds.includes(socketId)) {
+          existingUser.socketIds.push(socketId);
+        }
+        this.indexSocket(socketId, user.meetingId);
+      }
+      return { status: 'rejoined', participants: copyParticipants(participants) };
+    }
+
+    if (participants.length >= maxParticipants) {
+      return { status: 'full', participants: copyParticipants(participants) };
+    }
+
+    participants.push({ ...user, socketIds: [...user.socketIds] });
+    this.meetingRooms.set(user.meetingId, participants);
+    user.socketIds.forEach((socketId) => this.indexSocket(socketId, user.meetingId));
+
+    return { status: 'joined', participants: copyParticipants(participants) };
+  }
+
+  async leave(meetingId: string, socketId: string): Promise<LeaveResult> {
+    const participants = this.meetingRooms.get(meetingId);
+
+    if (!participants) {
+      return { user: null, left: false, participants: [] };
+    }
+
+    const userIndex = participants.findIndex((p) => p.socketIds.includes(socketId));
+
+    if (userIndex === -1) {
+      return { user: null, left: false, participants: copyParticipants(participants) };
+    }
+
+    const user = participants[userIndex];
+    user.socketIds = user.socketIds.filter((id) => id !== socketId);
+    this.unindexSocket(socketId, meetingId);
+
+    // The user is still online from another device
+    if (user.socketIds.length > 0) {
+      return {
+        user: { ...user, socketIds: [...user.socketIds] },
+        left: false,
+        participants: copyParticipants(participants),
+      };
+    }
+
+    participants.splice(userIndex, 1);
+
+    if (participants.length === 0) {
+      this.meetingRooms.delete(meetingId);
+      this.mutedUsers.delete(meetingId);
+    }
+
+    return { user, left: true, participants: copyParticipants(participants) };
+  }
+
+  async setReconnecting(meetingId: string, socketId: string, since: string): Promise<OnlineUser | null> {
+    const user = this.meetingRooms.get(meetingId)?.find((p) => p.socketIds.includes(socketId));
+
+    if (!user) {
+      return null;
+    }
+
+    user.reconnectingSince = since;
+    return { ...user, socketIds: [...user.socketIds] };
+  }
+
+  async resume(
+    meetingId: string,
+    userId: string,
+    oldSocketId: string,
+    newSocketId: string
+  ): Promise<OnlineUser[] | null> {
+    const participants = this.meetingRooms.get(meetingId) || [];
+    const user = participants.find((p) => p.userId === userId);
+
+    if (!user || !user.socketIds.includes(oldSocketId)) {
+      return null;
+    }
+
+    user.socketIds = user.socketIds.filter((id) => id !== oldSocketId && id !== newSocketId);
+    user.socketIds.push(newSocketId);
+    delete user.reconnectingSince;
+    this.unindexSocket(oldSocketId, meetingId);
+    this.indexSocket(newSocketId, meetingId);
+
+    return copyParticipants(participants);
+  }
+
+  async setMuted(meetingId: string, userId: string, muted: boolean): Promise<void> {
+    const mutedIds = this.mutedUsers.get(meetingId) || new Set<string>();
+    if (muted) {
+      mutedIds.add(userId);
+    } else {
+      mutedIds.delete(userId);
+    }
+    this.mutedUsers.set(meetingId, mutedIds);
+  }
+
+  async isMuted(meetingId: string, userId: string): Promise<boolean> {
+    return this.mutedUsers.get(meetingId)?.has(userId) || false;
+  }
+
+  async enqueueLobby(meetingId: string, entry: LobbyEntry): Promise<boolean> {
+    const queue = this.lobbies.get(meetingId) || [];
+    const existing = queue.find((waiting) => waiting.userId === entry.userId);
+
+    if (existing) {
+      existing.socketId = entry.socketId;
+      existing.username = entry.username;
+      return false;
+    }
+
+    queue.push({ ...entry });
+    this.lobbies.set(meetingId, queue);
+    return true;
+  }
+
+  async removeFromLobby(meetingId: string, userId: string): Promise<LobbyEntry | null> {
+    const queue = this.lobbies.get(meetingId);
+    const index = queue ? queue.findIndex((waiting) => waiting.userId === userId) : -1;
+
+    if (!queue || index === -1) {
+      return null;
+    }
+
+    const [entry] = queue.splice(index, 1);
+
+    if (queue.length === 0) {
+      this.lobbies.delete(meetingId);
+    }
+
+    return entry;
+  }
+
+  async removeSocketFromLobbies(socketId: string): Promise<RemovedLobbyEntry[]> {
+    const removed: RemovedLobbyEntry[] = [];
+
+    for (const [meetingId, queue] of Array.from(this.lobbies.entries())) {
+      const entry = queue.find((waiting) => waiting.socketId === socketId);
+
+      if (entry) {
+        await this.removeFromLobby(meetingId, entry.userId);
+        removed.push({ meetingId, entry });
+      }
+    }
+
+    return removed;
+  }
+
+  async getLobby(meetingId: string): Promise<LobbyEntry[]> {
+    return (this.lobbies.get(meetingId) || []).map((entry) => ({ ...entry }));
+  }
+
+  async clearLobby(meetingId: string): Promise<LobbyEntry[]> {
+    const queue = this.lobbies.get(meetingId) || [];
+    this.lobbies.delete(meetingId);
+    return queue;
+  }
+
+  async setAdmitted(meetingId: string, userId: string, admitted: boolean): Promise<void> {
+    const admittedIds = this.admittedUsers.get(meetingId) || new Set<string>();
+    if (admitted) {
+      admittedIds.add(userId);
+    } else {
+      admittedIds.delete(userId);
+    }
+    this.admittedUsers.set(meetingId, admittedIds);
+  }
+
+  async isAdmitted(meetingId: string, userId: string): Promise<boolean> {
+    return this.admittedUsers.get(meetingId)?.has(userId) || false;
+  }
+
+  async resetAdmitted(meetingId: string): Promise<void> {
+    this.admittedUsers.delete(meetingId);
+  }
+
+  // A single instance: nothing it tracks outlives the process
+
+  async heartbeat(_ttlMs: number): Promise<void> {
+    return;
+  }
+
+  async claimOrphanedSockets(): Promise<string[]> {
+    return [];
+  }
+
+  async releaseSocket(_socketId: string): Promise<void> {
+    return;
+  }
+
+  async getSocketMeetingIds(socketId: string): Promise<string[]> {
+    return Array.from(this.socketMeetings.get(socketId) || []);
+  }
+
+  async getMeetingIds(): Promise<string[]> {
+    return Array.from(this.meetingRooms.keys());
+  }
+
+  async countMeetings(): Promise<number> {
+    return this.meetingRooms.size;
+  }
+
+  async countUsers(): Promise<number> {
+    let total = 0;
+    for (const participants of this.meetingRooms.values()) {
+      total += participants.length;
+    }
+    return total;
+  }
+
+  private indexSocket(socketId: string, meetingId: string): void {
+    const meetingIds = this.socketMeetings.get(socketId) || new Set<string>();
+    meetingIds.add(meetingId);
+    this.socketMeetings.set(socketId, meetingIds);
+  }
+
+  private unindexSocket(socketId: string, meetingId: string): void {
+    const meetingIds = this.socketMeetings.get(socketId);
+    meetingIds?.delete(meetingId);
+    if (meetingIds?.size === 0) {
+      this.socketMeetings.delete(socketId);
+    }
+  }
+}
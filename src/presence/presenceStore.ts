@@ -0,0 +1,161 @@
+import { LobbyEntry, OnlineUser } from '../types';
+
+/**
+ * Result of adding a user to a meeting's presence list
+ * @interface JoinResult
+ */
+export interface JoinResult {
+  status: 'joined' | 'rejoined' | 'full';
+  participants: OnlineUser[];
+}
+
+/**
+ * Result of removing a socket from a meeting's presence list
+ * @interface LeaveResult
+ */
+export interface LeaveResult {
+  user: OnlineUser | null; // User the socket belonged to, null if it was not in the meeting
+  left: boolean; // True if that was the user's last socket in the meeting
+  participants: OnlineUser[];
+}
+
+/**
+ * Lobby entry removed from a meeting's lobby
+ * @interface RemovedLobbyEntry
+ */
+export interface RemovedLobbyEntry {
+  meetingId: string;
+  entry: LobbyEntry;
+}
+
+/**
+ * Store for who is currently online in each meeting (real-time only)
+ * Shared between server instances when backed by Redis.
+ * @interface PresenceStore
+ */
+export interface PresenceStore {
+  /**
+   * Get users currently online in a meeting, in join order
+   */
+  getParticipants(meetingId: string): Promise<OnlineUser[]>;
+
+  /**
+   * Add a user's socket (user.socketIds[0]) to a meeting, atomically checking capacity
+   * A user already present keeps their slot and adds the socket to it.
+   */
+  join(user: OnlineUser, maxParticipants: number): Promise<JoinResult>;
+
+  /**
+   * Remove a socket from a meeting
+   * The user stays online until their last socket is removed.
+   */
+  leave(meetingId: string, socketId: string): Promise<LeaveResult>;
+
+  /**
+   * Mark the user of a dropped socket as reconnecting
+   * The socket keeps its slot until it is resumed or removed with leave().
+   */
+  setReconnecting(meetingId: string, socketId: string, since: string): Promise<OnlineUser | null>;
+
+  /**
+   * Give a dropped socket's slot to the same user's new socket
+   * Returns null if the old socket is no longer in the meeting (e.g. the grace period ended).
+   */
+  resume(
+    meetingId: string,
+    userId: string,
+    oldSocketId: string,
+    newSocketId: string
+  ): Promise<OnlineUser[] | null>;
+
+  /**
+   * Mute or unmute a user's chat in a meeting
+   * Mutes last until the meeting is empty.
+   */
+  setMuted(meetingId: string, userId: string, muted: boolean): Promise<void>;
+
+  /**
+   * Check if a user's chat is muted in a meeting
+   */
+  isMuted(meetingId: string, userId: string): Promise<boolean>;
+
+  /**
+   * Put a user in a meeting's lobby
+   * A user already waiting keeps their place (and their socket is updated).
+   * Returns true if the user was not waiting before.
+   */
+  enqueueLobby(meetingId: string, entry: LobbyEntry): Promise<boolean>;
+
+  /**
+   * Take a user out of a meeting's lobby
+   * Returns the entry if the user was waiting.
+   */
+  removeFromLobby(meetingId: string, userId: string): Promise<LobbyEntry | null>;
+
+  /**
+   * Take a socket out of every lobby it waits in (e.g. on disconnect)
+   */
+  removeSocketFromLobbies(socketId: string): Promise<RemovedLobbyEntry[]>;
+
+  /**
+   * Get users waiting in a meeting's lobby, first in line first
+   */
+  getLobby(meetingId: string): Promise<LobbyEntry[]>;
+
+  /**
+   * Empty a meeting's lobby, returning who was waiting
+   */
+  clearLobby(meetingId: string): Promise<LobbyEntry[]>;
+
+  /**
+   * Record or take back a user's lobby admission
+   */
+  setAdmitted(meetingId: string, userId: string, admitted: boolean): Promise<void>;
+
+  /**
+   * Check if a user was admitted from a meeting's lobby
+   */
+  isAdmitted(meetingId: string, userId: string): Promise<boolean>;
+
+  /**
+   * Forget every admission to a meeting (e.g. once the meeting room is empty)
+   */
+  resetAdmitted(meetingId: string): Promise<void>;
+
+  /**
+   * Mark this server instance as alive for the next ttlMs
+   * Sockets of an instance that stops sending heartbeats are handed out by claimOrphanedSockets().
+   */
+  heartbeat(ttlMs: number): Promise<void>;
+
+  /**
+   * Take the sockets held by instances whose heartbeat ran out (crashed or redeployed)
+   * Each socket is returned to one caller only, who removes it from meetings and lobbies.
+   */
+  claimOrphanedSockets(): Promise<string[]>;
+
+  /**
+   * Stop tracking a socket of this instance that holds no slot or lobby place anymore
+   */
+  releaseSocket(socketId: string): Promise<void>;
+
+  /**
+   * Get IDs of meetings a socket is in (including while it is reconnecting)
+   */
+  getSocketMeetingIds(socketId: string): Promise<string[]>;
+
+  /**
+   * Get IDs of meetings with at least one user online
+   */
+  getMeetingIds(): Promise<string[]>;
+
+  /**
+   * Count meetings with at least one user online
+   */
+  countMeetings(): Promise<number>;
+
+  /**
+   * Count users online across all meetings
+   */
+  countUsers(): Promise<number>;
+}
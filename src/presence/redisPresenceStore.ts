@@ -0,0 +1,431 @@
+import { randomUUID } from 'crypto';
+import { getRedisClient, RedisClient } from '../config/redis';
+import { LobbyEntry, OnlineUser } from '../types';
+import { JoinResult, LeaveResult, PresenceStore, RemovedLobbyEntry } from './presenceStore';
+
+// Keys: a set of meetings with users online, a hash of userId → OnlineUser per meeting
+// and a set of meeting IDs per socket (reverse index for disconnects)
+const MEETINGS_KEY = 'presence:meetings';
+const meetingKey = (meetingId: string): string => `presence:meeting:${meetingId}`;
+const socketKey = (socketId: string): string => `presence:socket:${socketId}`;
+
+// Lobby keys: a hash of userId → LobbyEntry per meeting, a set of admitted user IDs
+// per meeting and a set of meeting IDs per waiting socket
+const lobbyKey = (meetingId: string): string => `presence:lobby:${meetingId}`;
+const admittedKey = (meetingId: string): string => `presence:admitted:${meetingId}`;
+const lobbySocketKey = (socketId: string): string => `presence:lobby-socket:${socketId}`;
+const mutedKey = (meetingId: string): string => `presence:muted:${meetingId}`;
+
+// Liveness keys: the set of known instances, a heartbeat per instance (expires unless
+// refreshed) and the sockets each instance holds, so a dead instance's sockets can be swept
+const INSTANCES_KEY = 'presence:instances';
+const heartbeatKey = (instanceId: string): string => `presence:instance:${instanceId}`;
+const instanceSocketsKey = (instanceId: string): string => `presence:instance-sockets:${instanceId}`;
+
+// Capacity check and insert must happen atomically across server instances
+// A user already online adds the socket to their entry (another device)
+const JOIN_SCRIPT = `
+local existing = redis.call('HGET', KEYS[1], ARGV[1])
+if existing then
+  local user = cjson.decode(existing)
+  local present = false
+  for _, socketId in ipairs(user.socketIds) do
+    if socketId == ARGV[4] then
+      present = true
+    end
+  end
+  if not present then
+    table.insert(user.socketIds, ARGV[4])
+  end
+  user.reconnectingSince = nil
+  redis.call('HSET', KEYS[1], ARGV[1], cjson.encode(user))
+  redis.call('SADD', KEYS[3], ARGV[5])
+  redis.call('SADD', KEYS[4], ARGV[4])
+  return 'rejoined'
+end
+if redis.call('HLEN', KEYS[1]) >= tonumber(ARGV[3]) then
+  return 'full'
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+redis.call('SADD', KEYS[2], ARGV[5])
+redis.call('SADD', KEYS[3], ARGV[5])
+redis.call('SADD', KEYS[4], ARGV[4])
+return 'joined'
+`;
+
+// Returns { user JSON, 'left' | 'online' }; the entry goes away with its last socket
+const LEAVE_SCRIPT = `
+local entries = redis.call('HGETALL', KEYS[1])
+for i = 1, #entries, 2 do
+  local user = cjson.decode(entries[i + 1])
+  local remaining = {}
+  local found = false
+  for _, socketId in ipairs(user.socketIds) do
+    if socketId == ARGV[1] then
+      found = true
+    else
+      table.insert(remaining, socketId)
+    end
+  end
+  if found then
+    redis.call('SREM', KEYS[4], ARGV[2])
+    if #remaining > 0 then
+      user.socketIds = remaining
+      local updated = cjson.encode(user)
+      redis.call('HSET', KEYS[1], entries[i], updated)
+      return { updated, 'online' }
+    end
+    redis.call('HDEL', KEYS[1], entries[i])
+    if redis.call('HLEN', KEYS[1]) == 0 then
+      redis.call('SREM', KEYS[2], ARGV[2])
+      redis.call('DEL', KEYS[3])
+    end
+    return { entries[i + 1], 'left' }
+  end
+end
+return false
+`;
+
+const SET_RECONNECTING_SCRIPT = `
+local entries = redis.call('HGETALL', KEYS[1])
+for i = 1, #entries, 2 do
+  local user = cjson.decode(entries[i + 1])
+  for _, socketId in ipairs(user.socketIds) do
+    if socketId == ARGV[1] then
+      user.reconnectingSince = ARGV[2]
+      local updated = cjson.encode(user)
+      redis.call('HSET', KEYS[1], entries[i], updated)
+      return updated
+    end
+  end
+end
+return false
+`;
+
+// Swaps the old socket for the new one only while the old one still holds the slot
+const RESUME_SCRIPT = `
+local existing = redis.call('HGET', KEYS[1], ARGV[1])
+if not existing then
+  return 0
+end
+local user = cjson.decode(existing)
+local socketIds = {}
+local found = false
+for _, socketId in ipairs(user.socketIds) do
+  if socketId == ARGV[2] then
+    found = true
+  elseif socketId ~= ARGV[3] then
+    table.insert(socketIds, socketId)
+  end
+end
+if not found then
+  return 0
+end
+table.insert(socketIds, ARGV[3])
+user.socketIds = socketIds
+user.reconnectingSince = nil
+redis.call('HSET', KEYS[1], ARGV[1], cjson.encode(user))
+redis.call('SREM', KEYS[2], ARGV[4])
+redis.call('SADD', KEYS[3], ARGV[4])
+redis.call('SADD', KEYS[4], ARGV[3])
+return 1
+`;
+
+// A user already waiting keeps their place in line (requestedAt); returns 1 if new
+const ENQUEUE_LOBBY_SCRIPT = `
+local entry = cjson.decode(ARGV[2])
+local existing = redis.call('HGET', KEYS[1], ARGV[1])
+if existing then
+  entry.requestedAt = cjson.decode(existing).requestedAt
+end
+redis.call('HSET', KEYS[1], ARGV[1], cjson.encode(entry))
+redis.call('SADD', KEYS[2], ARGV[3])
+redis.call('SADD', KEYS[3], ARGV[4])
+if existing then
+  return 0
+end
+return 1
+`;
+
+// Returns the removed entry JSON, only one caller gets it
+const REMOVE_LOBBY_SCRIPT = `
+local existing = redis.call('HGET', KEYS[1], ARGV[1])
+if not existing then
+  return false
+end
+redis.call('HDEL', KEYS[1], ARGV[1])
+return existing
+`;
+
+// Same as REMOVE_LOBBY_SCRIPT, finding the entry by socket ID
+const REMOVE_LOBBY_SOCKET_SCRIPT = `
+local entries = redis.call('HGETALL', KEYS[1])
+for i = 1, #entries, 2 do
+  if cjson.decode(entries[i + 1]).socketId == ARGV[1] then
+    redis.call('HDEL', KEYS[1], entries[i])
+    return entries[i + 1]
+  end
+end
+return false
+`;
+
+// Hands a dead instance's sockets to a single caller, nothing while its heartbeat lives
+const CLAIM_INSTANCE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  return false
+end
+local socketIds = redis.call('SMEMBERS', KEYS[2])
+redis.call('DEL', KEYS[2])
+redis.call('SREM', KEYS[3], ARGV[1])
+return socketIds
+`;
+
+/**
+ * Sort lobby entries first in line first
+ * @param {string[]} values - Stored entry JSON
+ * @returns {LobbyEntry[]} Entries
+ */
+const toLobbyEntries = (values: string[]): LobbyEntry[] => {
+  return values
+    .map((value) => JSON.parse(value) as LobbyEntry)
+    .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+};
+
+/**
+ * Presence store backed by Redis (or any Redis-protocol compatible server)
+ * Lets several server instances share capacity checks and online lists.
+ * Every socket is recorded under the instance holding it, so the sockets of an
+ * instance whose heartbeat ran out can be claimed and removed by the others.
+ * @class RedisPresenceStore
+ */
+export class RedisPresenceStore implements PresenceStore {
+  private client: RedisClient;
+  readonly instanceId: string;
+
+  constructor(client: RedisClient = getRedisClient(), instanceId: string = randomUUID()) {
+    this.client = client;
+    this.instanceId = instanceId;
+  }
+
+  async getParticipants(meetingId: string): Promise<OnlineUser[]> {
+    const values = await this.client.hVals(meetingKey(meetingId));
+
+    // Hash order is not guaranteed, keep join order
+    return values
+      .map((value) => JSON.parse(value) as OnlineUser)
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+  }
+
+  async join(user: OnlineUser, maxParticipants: number): Promise<JoinResult> {
+    const status = (await this.client.eval(JOIN_SCRIPT, {
+      keys: [
+        meetingKey(user.meetingId),
+        MEETINGS_KEY,
+        socketKey(user.socketIds[0]),
+        instanceSocketsKey(this.instanceId),
+      ],
+      arguments: [
+        user.userId,
+        JSON.stringify(user),
+        String(maxParticipants),
+        user.socketIds[0],
+        user.meetingId,
+      ],
+    })) as JoinResult['status'];
+
+    return {
+      status,
+      participants: await this.getParticipants(user.meetingId),
+    };
+  }
+
+  async leave(meetingId: string, socketId: string): Promise<LeaveResult> {
+    const removed = (await this.client.eval(LEAVE_SCRIPT, {
+      keys: [meetingKey(meetingId), MEETINGS_KEY, mutedKey(meetingId), socketKey(socketId)],
+      arguments: [socketId, meetingId],
+    })) as [string, 'left' | 'online'] | null;
+
+    return {
+      user: removed ? (JSON.parse(removed[0]) as OnlineUser) : null,
+      left: removed ? removed[1] === 'left' : false,
+      participants: await this.getParticipants(meetingId),
+    };
+  }
+
+  async setReconnecting(meetingId: string, socketId: string, since: string): Promise<OnlineUser | null> {
+    const updated = (await this.client.eval(SET_RECONNECTING_SCRIPT, {
+      keys: [meetingKey(meetingId)],
+      arguments: [socketId, since],
+    })) as string | null;
+
+    return updated ? (JSON.parse(updated) as OnlineUser) : null;
+  }
+
+  async resume(
+    meetingId: string,
+    userId: string,
+    oldSocketId: string,
+    newSocketId: string
+  ): Promise<OnlineUser[] | null> {
+    const resumed = await this.client.eval(RESUME_SCRIPT, {
+      keys: [
+        meetingKey(meetingId),
+        socketKey(oldSocketId),
+        socketKey(newSocketId),
+        instanceSocketsKey(this.instanceId),
+      ],
+      arguments: [userId, oldSocketId, newSocketId, meetingId],
+    });
+
+    return resumed === 1 ? this.getParticipants(meetingId) : null;
+  }
+
+  async setMuted(meetingId: string, userId: string, muted: boolean): Promise<void> {
+    if (muted) {
+      await this.client.sAdd(mutedKey(meetingId), userId);
+    } else {
+      await this.client.sRem(mutedKey(meetingId), userId);
+    }
+  }
+
+  async isMuted(meetingId: string, userId: string): Promise<boolean> {
+    return this.client.sIsMember(mutedKey(meetingId), userId);
+  }
+
+  async enqueueLobby(meetingId: string, entry: LobbyEntry): Promise<boolean> {
+    const added = await this.client.eval(ENQUEUE_LOBBY_SCRIPT, {
+      keys: [lobbyKey(meetingId), lobbySocketKey(entry.socketId), instanceSocketsKey(this.instanceId)],
+      arguments: [entry.userId, JSON.stringify(entry), meetingId, entry.socketId],
+    });
+
+    return added === 1;
+  }
+
+  async removeFromLobby(meetingId: string, userId: string): Promise<LobbyEntry | null> {
+    const removed = (await this.client.eval(REMOVE_LOBBY_SCRIPT, {
+      keys: [lobbyKey(meetingId)],
+      arguments: [userId],
+    })) as string | null;
+
+    if (!removed) {
+      return null;
+    }
+
+    const entry = JSON.parse(removed) as LobbyEntry;
+    await this.client.sRem(lobbySocketKey(entry.socketId), meetingId);
+    return entry;
+  }
+
+  async removeSocketFromLobbies(socketId: string): Promise<RemovedLobbyEntry[]> {
+    const removed: RemovedLobbyEntry[] = [];
+
+    // The index may list lobbies the socket has since left; the script only removes a match
+    for (const meetingId of await this.client.sMembers(lobbySocketKey(socketId))) {
+      const entry = (await this.client.eval(REMOVE_LOBBY_SOCKET_SCRIPT, {
+        keys: [lobbyKey(meetingId)],
+        arguments: [socketId],
+      })) as string | null;
+
+      if (entry) {
+        removed.push({ meetingId, entry: JSON.parse(entry) as LobbyEntry });
+      }
+    }
+
+    await this.client.del(lobbySocketKey(socketId));
+    return removed;
+  }
+
+  async getLobby(meetingId: string): Promise<LobbyEntry[]> {
+    return toLobbyEntries(await this.client.hVals(lobbyKey(meetingId)));
+  }
+
+  async clearLobby(meetingId: string): Promise<LobbyEntry[]> {
+    const [values] = await this.client
+      .multi()
+      .hVals(lobbyKey(meetingId))
+      .del(lobbyKey(meetingId))
+      .exec();
+    const entries = toLobbyEntries(values as unknown as string[]);
+
+    for (const entry of entries) {
+      await this.client.sRem(lobbySocketKey(entry.socketId), meetingId);
+    }
+
+    return entries;
+  }
+
+  async setAdmitted(meetingId: string, userId: string, admitted: boolean): Promise<void> {
+    if (admitted) {
+      await this.client.sAdd(admittedKey(meetingId), userId);
+    } else {
+      await this.client.sRem(admittedKey(meetingId), userId);
+    }
+  }
+
+  async isAdmitted(meetingId: string, userId: string): Promise<boolean> {
+    return this.client.sIsMember(admittedKey(meetingId), userId);
+  }
+
+  async resetAdmitted(meetingId: string): Promise<void> {
+    await this.client.del(admittedKey(meetingId));
+  }
+
+  async heartbeat(ttlMs: number): Promise<void> {
+    await this.client
+      .multi()
+      .set(heartbeatKey(this.instanceId), new Date().toISOString(), { PX: ttlMs })
+      .sAdd(INSTANCES_KEY, this.instanceId)
+      .exec();
+  }
+
+  async claimOrphanedSockets(): Promise<string[]> {
+    const socketIds: string[] = [];
+
+    for (const instanceId of await this.client.sMembers(INSTANCES_KEY)) {
+      if (instanceId === this.instanceId) {
+        continue;
+      }
+
+      const claimed = (await this.client.eval(CLAIM_INSTANCE_SCRIPT, {
+        keys: [heartbeatKey(instanceId), instanceSocketsKey(instanceId), INSTANCES_KEY],
+        arguments: [instanceId],
+      })) as string[] | null;
+
+      if (claimed) {
+        socketIds.push(...claimed);
+      }
+    }
+
+    return socketIds;
+  }
+
+  async releaseSocket(socketId: string): Promise<void> {
+    await this.client.sRem(instanceSocketsKey(this.instanceId), socketId);
+  }
+
+  async getSocketMeetingIds(socketId: string): Promise<string[]> {
+    return this.client.sMembers(socketKey(socketId));
+  }
+
+  async getMeetingIds(): Promise<string[]> {
+    return this.client.sMembers(MEETINGS_KEY);
+  }
+
+  async countMeetings(): Promise<number> {
+    return this.client.sCard(MEETINGS_KEY);
+  }
+
+  async countUsers(): Promise<number> {
+    const meetingIds = await this.getMeetingIds();
+
+    if (meetingIds.length === 0) {
+      return 0;
+    }
+
+    const multi = this.client.multi();
+    meetingIds.forEach((meetingId) => multi.hLen(meetingKey(meetingId)));
+    const counts = await multi.exec();
+
+    return counts.reduce<number>((total, count) => total + Number(count), 0);
+  }
+}
@@ -0,0 +1,340 @@
+import { FieldPath, FieldValue } from 'firebase-admin/firestore';
+import { getFirestoreInstance } from '../config/firebase';
+import {
+  ChatMessage,
+  InviteLink,
+  InviteRedeemStatus,
+  Meeting,
+  MeetingRole,
+  MeetingStatus,
+  MessageHistoryPage,
+  ReadCursor,
+} from '../types';
+import { MeetingRepository, MessagePageQuery, StoredMeeting } from './meetingRepository';
+
+/**
+ * Firestore storage backend
+ * Meetings live in `meetings/{meetingId}` and messages in `meetings/{meetingId}/messages`.
+ * @class FirestoreMeetingRepository
+ */
+export class FirestoreMeetingRepository implements MeetingRepository {
+  private db: FirebaseFirestore.Firestore;
+
+  constructor(db: FirebaseFirestore.Firestore = getFirestoreInstance()) {
+    this.db = db;
+  }
+
+  private get meetings(): FirebaseFirestore.CollectionReference {
+    return this.db.collection('meetings');
+  }
+
+  async create(meeting: Meeting): Promise<void> {
+    await this.meetings.doc(meeting.meetingId).set(meeting);
+  }
+
+  async findById(meetingId: string): Promise<StoredMeeting | null> {
+    const doc = await this.meetings.doc(meetingId).get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return {
+      id: doc.id,
+      ...doc.data(),
+    } as StoredMeeting;
+  }
+
+  async findByParticipant(userId: string): Promise<StoredMeeting[]> {
+    const snapshot = await this.meetings.where('participants', 'array-contains', userId).get();
+
+    return snapshot.docs.map(
+      (doc) =>
+        ({
+          id: doc.id,
+          ...doc.data(),
+        }) as StoredMeeting
+    );
+  }
+
+  async findByStatus(statuses: MeetingStatus[]): Promise<StoredMeeting[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+
+    const snapshot = await this.meetings.where('status', 'in', statuses).get();
+
+    return snapshot.docs.map(
+      (doc) =>
+        ({
+          id: doc.id,
+          ...doc.data(),
+        }) as StoredMeeting
+    );
+  }
+
+  async findBySeries(seriesId: string): Promise<StoredMeeting[]> {
+    const snapshot = await this.meetings.where('seriesId', '==', seriesId).get();
+
+    return snapshot.docs.map(
+      (doc) =>
+        ({
+          id: doc.id,
+          ...doc.data(),
+        }) as StoredMeeting
+    );
+  }
+
+  async update(meetingId: string, data: Partial<Meeting>): Promise<void> {
+    await this.meetings.doc(meetingId).update(data);
+  }
+
+  async updateIfHost(
+    meetingId: string,
+    hostId: string,
+    data: Partial<Meeting>,
+    roleChanges: Record<string, MeetingRole | null> = {}
+  ): Promise<boolean> {
+    const meetingRef = this.meetings.doc(meetingId);
+
+    // Field paths write one roles entry each, instead of the whole map read earlier
+    const fields: unknown[] = Object.entries(data).flatMap(([key, value]) => [
+      new FieldPath(key),
+      value,
+    ]);
+    for (const [userId, role] of Object.entries(roleChanges)) {
+      fields.push(new FieldPath('roles', userId), role || FieldValue.delete());
+    }
+    const [field, value, ...moreFields] = fields;
+
+    return this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(meetingRef);
+
+      if (!doc.exists || doc.data()?.hostId !== hostId) {
+        return false;
+      }
+
+      transaction.update(meetingRef, field as FieldPath, value, ...moreFields);
+      return true;
+    });
+  }
+
+  async updateIfStatus(
+    meetingId: string,
+    status: string | undefined,
+    data: Partial<Meeting>
+  ): Promise<boolean> {
+    const meetingRef = this.meetings.doc(meetingId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(meetingRef);
+
+      if (!doc.exists || doc.data()?.status !== status) {
+        return false;
+      }
+
+      transaction.update(meetingRef, data);
+      return true;
+    });
+  }
+
+  async addBannedUser(meetingId: string, userId: string, data: Partial<Meeting>): Promise<void> {
+    await this.meetings.doc(meetingId).update({
+      ...data,
+      bannedUsers: FieldValue.arrayUnion(userId),
+    });
+  }
+
+  async delete(meetingId: string): Promise<void> {
+    // Deleting the document alone would leave its messages, read cursors and invite links behind
+    await this.db.recursiveDelete(this.meetings.doc(meetingId));
+  }
+
+  async saveMessage(message: ChatMessage): Promise<void> {
+    // Firestore rejects undefined fields (e.g. a missing username)
+    const data = Object.fromEntries(
+      Object.entries(message).filter(([, value]) => value !== undefined)
+    );
+
+    await this.meetings
+      .doc(message.meetingId)
+      .collection('messages')
+      .doc(message.messageId)
+      .set(data);
+  }
+
+  async findMessage(meetingId: string, messageId: string): Promise<ChatMessage | null> {
+    const doc = await this.meetings
+      .doc(meetingId)
+      .collection('messages')
+      .doc(messageId)
+      .get();
+
+    return doc.exists ? (doc.data() as ChatMessage) : null;
+  }
+
+  async findThreadReplies(meetingId: string, threadId: string): Promise<ChatMessage[]> {
+    const snapshot = await this.meetings
+      .doc(meetingId)
+      .collection('messages')
+      .where('threadId', '==', threadId)
+      .get();
+
+    return snapshot.docs.map((doc) => doc.data() as ChatMessage);
+  }
+
+  async updateMessage(
+    meetingId: string,
+    messageId: string,
+    data: Partial<ChatMessage>
+  ): Promise<void> {
+    await this.meetings.doc(meetingId).collection('messages').doc(messageId).update(data);
+  }
+
+  async setReaction(
+    meetingId: string,
+    messageId: string,
+    emoji: string,
+    userId: string,
+    reacted: boolean
+  ): Promise<void> {
+    // Array union/remove keeps concurrent reactions from overwriting each other
+    await this.meetings
+      .doc(meetingId)
+      .collection('messages')
+      .doc(messageId)
+      .update(
+        new FieldPath('reactions', emoji),
+        reacted ? FieldValue.arrayUnion(userId) : FieldValue.arrayRemove(userId)
+      );
+  }
+
+  async getMessages(meetingId: string, query: MessagePageQuery): Promise<MessageHistoryPage> {
+    const messagesRef = this.meetings.doc(meetingId).collection('messages');
+
+    const cursorId = query.after || query.before;
+    let cursor: FirebaseFirestore.DocumentSnapshot | undefined;
+
+    if (cursorId) {
+      cursor = await messagesRef.doc(cursorId).get();
+      if (!cursor.exists) {
+        throw new Error('Message not found');
+      }
+    }
+
+    // Newer pages read forward, older/latest pages read backwards and are reversed
+    const direction = query.after ? 'asc' : 'desc';
+    let messagesQuery = messagesRef.orderBy('timestamp', direction);
+
+    if (cursor) {
+      messagesQuery = messagesQuery.startAfter(cursor);
+    }
+
+    // Fetch one extra document to know if there are more pages
+    const snapshot = await messagesQuery.limit(query.limit + 1).get();
+    const messages = snapshot.docs.slice(0, query.limit).map((doc) => doc.data() as ChatMessage);
+
+    if (direction === 'desc') {
+      messages.reverse();
+    }
+
+    return {
+      messages,
+      hasMore: snapshot.docs.length > query.limit,
+    };
+  }
+
+  async getReadCursor(meetingId: string, userId: string): Promise<ReadCursor | null> {
+    const doc = await this.meetings.doc(meetingId).collection('readCursors').doc(userId).get();
+    return doc.exists ? (doc.data() as ReadCursor) : null;
+  }
+
+  async setReadCursor(meetingId: string, cursor: ReadCursor): Promise<void> {
+    await this.meetings.doc(meetingId).collection('readCursors').doc(cursor.userId).set(cursor);
+  }
+
+  async countUnreadMessages(
+    meetingId: string,
+    userId: string,
+    cursor?: ReadCursor | null
+  ): Promise<number> {
+    let query: FirebaseFirestore.Query = this.meetings.doc(meetingId).collection('messages');
+
+    if (cursor) {
+      query = query.where('timestamp', '>=', cursor.timestamp);
+    }
+
+    // Filter locally to avoid Firestore composite index issues; messages saved in the
+    // cursor's millisecond count when they sort after it (document ID, as in getMessages)
+    const snapshot = await query.select('userId', 'deleted', 'timestamp').get();
+    return snapshot.docs.filter(
+      (doc) =>
+        (!cursor || doc.get('timestamp') > cursor.timestamp || doc.id > cursor.messageId) &&
+        doc.get('userId') !== userId &&
+        !doc.get('deleted')
+    ).length;
+  }
+
+  async saveInviteLink(link: InviteLink): Promise<void> {
+    await this.meetings.doc(link.meetingId).collection('inviteLinks').doc(link.tokenId).set(link);
+  }
+
+  async findInviteLinks(meetingId: string): Promise<InviteLink[]> {
+    const snapshot = await this.meetings.doc(meetingId).collection('inviteLinks').get();
+    return snapshot.docs.map((doc) => doc.data() as InviteLink);
+  }
+
+  async redeemInviteLink(
+    meetingId: string,
+    tokenId: string,
+    userId: string
+  ): Promise<InviteRedeemStatus> {
+    const linkRef = this.meetings.doc(meetingId).collection('inviteLinks').doc(tokenId);
+
+    // Read and update in one transaction so concurrent redemptions can't exceed maxUses
+    return this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(linkRef);
+
+      if (!doc.exists) {
+        return 'not-found';
+      }
+
+      const link = doc.data() as InviteLink;
+
+      if (link.revoked) return 'revoked';
+      if (link.redeemedBy.includes(userId)) return 'already-redeemed';
+      if (link.maxUses !== null && link.uses >= link.maxUses) return 'exhausted';
+
+      transaction.update(linkRef, {
+        uses: FieldValue.increment(1),
+        redeemedBy: FieldValue.arrayUnion(userId),
+      });
+
+      return 'redeemed';
+    });
+  }
+
+  async revokeInviteLinks(meetingId: string, tokenIds?: string[]): Promise<number> {
+    const links = await this.findInviteLinks(meetingId);
+    const toRevoke = links.filter(
+      (link) => !link.revoked && (!tokenIds || tokenIds.includes(link.tokenId))
+    );
+
+    if (toRevoke.length === 0) {
+      return 0;
+    }
+
+    const batch = this.db.batch();
+    const revokedAt = new Date().toISOString();
+
+    for (const link of toRevoke) {
+      batch.update(this.meetings.doc(meetingId).collection('inviteLinks').doc(link.tokenId), {
+        revoked: true,
+        revokedAt,
+      });
+    }
+
+    await batch.commit();
+    return toRevoke.length;
+  }
+}
@@ -0,0 +1,54 @@
+import { logger } from '../utils/logger';
+import { FirestoreMeetingRepository } from './firestoreMeetingRepository';
+import { MeetingRepository } from './meetingRepository';
+import { MemoryMeetingRepository } from './memoryMeetingRepository';
+
+export { MeetingRepository, MessagePageQuery, StoredMeeting } from './meetingRepository';
+export { FirestoreMeetingRepository } from './firestoreMeetingRepository';
+export { MemoryMeetingRepository } from './memoryMeetingRepository';
+
+/**
+ * Supported storage drivers
+ */
+export type StorageDriver = 'firestore' | 'memory';
+
+let repository: MeetingRepository | null = null;
+
+/**
+ * Get the configured storage driver (STORAGE_DRIVER, defaults to firestore)
+ * @returns {StorageDriver} Storage driver
+ * @throws {Error} If STORAGE_DRIVER has an unknown value
+ */
+export const getStorageDriver = (): StorageDriver => {
+  const driver = (process.env.STORAGE_DRIVER || 'firestore').toLowerCase();
+
+  if (driver !== 'firestore' && driver !== 'memory') {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "firestore" or "memory".`);
+  }
+
+  return driver;
+};
+
+/**
+ * Get the shared meeting repository for the configured driver
+ * Shared so every ChatService sees the same in-memory data.
+ * @returns {MeetingRepository} Meeting repository
+ */
+export const getMeetingRepository = (): MeetingRepository => {
+  if (repository) return repository;
+
+  const driver = getStorageDriver();
+  repository =
+    driver === 'memory' ? new MemoryMeetingRepository() : new FirestoreMeetingRepository();
+
+  logger.info(`Using ${driver} storage`);
+  return repository;
+};
+
+/**
+ * Replace the shared repository (e.g. with a fresh in-memory one in tests)
+ * @param {MeetingRepository | null} newRepository - Repository to use, or null to reset
+ */
+export const setMeetingRepository = (newRepository: MeetingRepository | null): void => {
+  repository = newRepository;
+};
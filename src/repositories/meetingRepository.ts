@@ -0,0 +1,180 @@
+import {
+  ChatMessage,
+  InviteLink,
+  InviteRedeemStatus,
+  Meeting,
+  MeetingRole,
+  MeetingStatus,
+  MessageHistoryPage,
+  ReadCursor,
+} from '../types';
+
+/**
+ * Stored meeting document, including its storage ID
+ * @interface StoredMeeting
+ */
+export interface StoredMeeting extends Meeting {
+  id: string;
+}
+
+/**
+ * Message page query as seen by a repository (limit already resolved)
+ * @interface MessagePageQuery
+ */
+export interface MessagePageQuery {
+  before?: string;
+  after?: string;
+  limit: number;
+}
+
+/**
+ * Storage backend for meetings and their chat messages
+ * Implementations must behave the same so they can be swapped by config.
+ * @interface MeetingRepository
+ */
+export interface MeetingRepository {
+  /**
+   * Store a new meeting (overwrites an existing one with the same ID)
+   */
+  create(meeting: Meeting): Promise<void>;
+
+  /**
+   * Find a meeting by ID
+   * @returns {Promise<StoredMeeting | null>} Meeting or null if not found
+   */
+  findById(meetingId: string): Promise<StoredMeeting | null>;
+
+  /**
+   * Find every meeting whose participants include the user (unsorted)
+   */
+  findByParticipant(userId: string): Promise<StoredMeeting[]>;
+
+  /**
+   * Find meetings in any of the given statuses
+   */
+  findByStatus(statuses: MeetingStatus[]): Promise<StoredMeeting[]>;
+
+  /**
+   * Find every occurrence of a recurring meeting (unsorted)
+   */
+  findBySeries(seriesId: string): Promise<StoredMeeting[]>;
+
+  /**
+   * Merge fields into an existing meeting
+   * @throws {Error} If the meeting does not exist
+   */
+  update(meetingId: string, data: Partial<Meeting>): Promise<void>;
+
+  /**
+   * Update a meeting only if its host is still hostId, atomically
+   * Keeps two concurrent host changes from both applying. Role changes are written
+   * per user (null removes the entry), so changes to other users' roles are kept.
+   * @returns {Promise<boolean>} False if the meeting is missing or has another host
+   */
+  updateIfHost(
+    meetingId: string,
+    hostId: string,
+    data: Partial<Meeting>,
+    roleChanges?: Record<string, MeetingRole | null>
+  ): Promise<boolean>;
+
+  /**
+   * Update a meeting only if its stored status is still status, atomically
+   * Keeps two concurrent status changes from both applying.
+   * @returns {Promise<boolean>} False if the meeting is missing or its status changed
+   */
+  updateIfStatus(meetingId: string, status: string | undefined, data: Partial<Meeting>): Promise<boolean>;
+
+  /**
+   * Add a user to a meeting's banned list, atomically (no duplicates), and merge other fields
+   * Keeps two concurrent bans from dropping one of the users.
+   * @throws {Error} If the meeting does not exist
+   */
+  addBannedUser(meetingId: string, userId: string, data: Partial<Meeting>): Promise<void>;
+
+  /**
+   * Delete a meeting (no-op if it does not exist)
+   */
+  delete(meetingId: string): Promise<void>;
+
+  /**
+   * Store a chat message under its meeting
+   */
+  saveMessage(message: ChatMessage): Promise<void>;
+
+  /**
+   * Find a message by ID
+   * @returns {Promise<ChatMessage | null>} Message or null if not found
+   */
+  findMessage(meetingId: string, messageId: string): Promise<ChatMessage | null>;
+
+  /**
+   * Find every reply in a thread (unsorted)
+   */
+  findThreadReplies(meetingId: string, threadId: string): Promise<ChatMessage[]>;
+
+  /**
+   * Merge fields into an existing message
+   * @throws {Error} If the message does not exist
+   */
+  updateMessage(meetingId: string, messageId: string, data: Partial<ChatMessage>): Promise<void>;
+
+  /**
+   * Add (or remove) a user's reaction on a message; a user reacts once per emoji
+   * @throws {Error} If the message does not exist
+   */
+  setReaction(
+    meetingId: string,
+    messageId: string,
+    emoji: string,
+    userId: string,
+    reacted: boolean
+  ): Promise<void>;
+
+  /**
+   * Get a page of messages, sorted oldest first
+   * @throws {Error} 'Message not found' if the cursor message does not exist
+   */
+  getMessages(meetingId: string, query: MessagePageQuery): Promise<MessageHistoryPage>;
+
+  /**
+   * Get a user's read cursor in a meeting
+   * @returns {Promise<ReadCursor | null>} Cursor or null if the user has read nothing
+   */
+  getReadCursor(meetingId: string, userId: string): Promise<ReadCursor | null>;
+
+  /**
+   * Store a user's read cursor in a meeting
+   */
+  setReadCursor(meetingId: string, cursor: ReadCursor): Promise<void>;
+
+  /**
+   * Count messages after a read cursor that are not deleted and not sent by the user
+   * Messages are ordered by (timestamp, messageId) as in getMessages.
+   * Without a cursor every message counts.
+   */
+  countUnreadMessages(meetingId: string, userId: string, cursor?: ReadCursor | null): Promise<number>;
+
+  /**
+   * Store an invite link under its meeting
+   */
+  saveInviteLink(link: InviteLink): Promise<void>;
+
+  /**
+   * Find every invite link of a meeting (unsorted)
+   */
+  findInviteLinks(meetingId: string): Promise<InviteLink[]>;
+
+  /**
+   * Use up one redemption of an invite link for a user, atomically
+   * A user who already redeemed the link gets 'already-redeemed' without using it up.
+   * @returns {Promise<InviteRedeemStatus>} Outcome
+   */
+  redeemInviteLink(meetingId: string, tokenId: string, userId: string): Promise<InviteRedeemStatus>;
+
+  /**
+   * Revoke invite links (all of the meeting's links when tokenIds is omitted)
+   * @returns {Promise<number>} Number of links revoked (already revoked ones don't count)
+   */
+  revokeInviteLinks(meetingId: string, tokenIds?: string[]): Promise<number>;
+}
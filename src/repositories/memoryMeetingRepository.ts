@@ -0,0 +1,340 @@
+import {
+  ChatMessage,
+  InviteLink,
+  InviteRedeemStatus,
+  Meeting,
+  MeetingRole,
+  MeetingStatus,
+  MessageHistoryPage,
+  ReadCursor,
+} from '../types';
+import { MeetingRepository, MessagePageQuery, StoredMeeting } from './meetingRepository';
+
+/**
+ * Sort messages the way Firestore does: by timestamp, then by document ID
+ * @param {Pick<ChatMessage, 'timestamp' | 'messageId'>} a - First message (or read cursor)
+ * @param {Pick<ChatMessage, 'timestamp' | 'messageId'>} b - Second message (or read cursor)
+ * @returns {number} Sort order
+ */
+const compareMessages = (
+  a: Pick<ChatMessage, 'timestamp' | 'messageId'>,
+  b: Pick<ChatMessage, 'timestamp' | 'messageId'>
+): number => {
+  if (a.timestamp !== b.timestamp) {
+    return a.timestamp < b.timestamp ? -1 : 1;
+  }
+  if (a.messageId === b.messageId) {
+    return 0;
+  }
+  return a.messageId < b.messageId ? -1 : 1;
+};
+
+/**
+ * In-memory storage backend (offline development and tests)
+ * Data is lost on restart. Returned objects are copies, like Firestore snapshots.
+ * @class MemoryMeetingRepository
+ */
+export class MemoryMeetingRepository implements MeetingRepository {
+  private meetings = new Map<string, Meeting>();
+  private messages = new Map<string, Map<string, ChatMessage>>();
+  private readCursors = new Map<string, Map<string, ReadCursor>>();
+  private inviteLinks = new Map<string, Map<string, InviteLink>>();
+
+  async create(meeting: Meeting): Promise<void> {
+    this.meetings.set(meeting.meetingId, structuredClone(meeting));
+  }
+
+  async findById(meetingId: string): Promise<StoredMeeting | null> {
+    const meeting = this.meetings.get(meetingId);
+
+    if (!meeting) {
+      return null;
+    }
+
+    return {
+      id: meetingId,
+      ...structuredClone(meeting),
+    };
+  }
+
+  async findByParticipant(userId: string): Promise<StoredMeeting[]> {
+    const meetings: StoredMeeting[] = [];
+
+    for (const [meetingId, meeting] of this.meetings.entries()) {
+      if (Array.isArray(meeting.participants) && meeting.participants.includes(userId)) {
+        meetings.push({
+          id: meetingId,
+          ...structuredClone(meeting),
+        });
+      }
+    }
+
+    return meetings;
+  }
+
+  async findByStatus(statuses: MeetingStatus[]): Promise<StoredMeeting[]> {
+    const meetings: StoredMeeting[] = [];
+
+    for (const [meetingId, meeting] of this.meetings.entries()) {
+      if (statuses.includes(meeting.status)) {
+        meetings.push({
+          id: meetingId,
+          ...structuredClone(meeting),
+        });
+      }
+    }
+
+    return meetings;
+  }
+
+  async findBySeries(seriesId: string): Promise<StoredMeeting[]> {
+    const meetings: StoredMeeting[] = [];
+
+    for (const [meetingId, meeting] of this.meetings.entries()) {
+      if (meeting.seriesId === seriesId) {
+        meetings.push({
+          id: meetingId,
+          ...structuredClone(meeting),
+        });
+      }
+    }
+
+    return meetings;
+  }
+
+  async update(meetingId: string, data: Partial<Meeting>): Promise<void> {
+    const meeting = this.meetings.get(meetingId);
+
+    if (!meeting) {
+      throw new Error(`No meeting to update: ${meetingId}`);
+    }
+
+    this.meetings.set(meetingId, {
+      ...meeting,
+      ...structuredClone(data),
+    });
+  }
+
+  async updateIfHost(
+    meetingId: string,
+    hostId: string,
+    data: Partial<Meeting>,
+    roleChanges: Record<string, MeetingRole | null> = {}
+  ): Promise<boolean> {
+    const meeting = this.meetings.get(meetingId);
+
+    if (meeting?.hostId !== hostId) {
+      return false;
+    }
+
+    const roles = { ...meeting.roles };
+    for (const [userId, role] of Object.entries(roleChanges)) {
+      if (role) {
+        roles[userId] = role;
+      } else {
+        delete roles[userId];
+      }
+    }
+
+    await this.update(meetingId, { ...data, roles });
+    return true;
+  }
+
+  async updateIfStatus(
+    meetingId: string,
+    status: string | undefined,
+    data: Partial<Meeting>
+  ): Promise<boolean> {
+    const meeting = this.meetings.get(meetingId);
+
+    if (!meeting || meeting.status !== status) {
+      return false;
+    }
+
+    await this.update(meetingId, data);
+    return true;
+  }
+
+  async addBannedUser(meetingId: string, userId: string, data: Partial<Meeting>): Promise<void> {
+    const bannedUsers = this.meetings.get(meetingId)?.bannedUsers || [];
+
+    // Like Firestore array union: no duplicates
+    await this.update(meetingId, {
+      ...data,
+      bannedUsers: bannedUsers.includes(userId) ? bannedUsers : [...bannedUsers, userId],
+    });
+  }
+
+  async delete(meetingId: string): Promise<void> {
+    this.meetings.delete(meetingId);
+    this.messages.delete(meetingId);
+    this.readCursors.delete(meetingId);
+    this.inviteLinks.delete(meetingId);
+  }
+
+  async saveMessage(message: ChatMessage): Promise<void> {
+    const meetingMessages = this.messages.get(message.meetingId) || new Map<string, ChatMessage>();
+    meetingMessages.set(message.messageId, structuredClone(message));
+    this.messages.set(message.meetingId, meetingMessages);
+  }
+
+  async findMessage(meetingId: string, messageId: string): Promise<ChatMessage | null> {
+    const message = this.messages.get(meetingId)?.get(messageId);
+    return message ? structuredClone(message) : null;
+  }
+
+  async findThreadReplies(meetingId: string, threadId: string): Promise<ChatMessage[]> {
+    const meetingMessages = this.messages.get(meetingId) || new Map<string, ChatMessage>();
+
+    return Array.from(meetingMessages.values())
+      .filter((message) => message.threadId === threadId)
+      .map((message) => structuredClone(message));
+  }
+
+  async updateMessage(
+    meetingId: string,
+    messageId: string,
+    data: Partial<ChatMessage>
+  ): Promise<void> {
+    const meetingMessages = this.messages.get(meetingId);
+    const message = meetingMessages?.get(messageId);
+
+    if (!meetingMessages || !message) {
+      throw new Error(`No message to update: ${messageId}`);
+    }
+
+    meetingMessages.set(messageId, {
+      ...message,
+      ...structuredClone(data),
+    });
+  }
+
+  async setReaction(
+    meetingId: string,
+    messageId: string,
+    emoji: string,
+    userId: string,
+    reacted: boolean
+  ): Promise<void> {
+    const message = this.messages.get(meetingId)?.get(messageId);
+
+    if (!message) {
+      throw new Error(`No message to update: ${messageId}`);
+    }
+
+    const reactions = message.reactions || {};
+    const userIds = reactions[emoji] || [];
+
+    // Like Firestore array union/remove: no duplicates, empty lists are kept
+    if (reacted) {
+      reactions[emoji] = userIds.includes(userId) ? userIds : [...userIds, userId];
+    } else {
+      reactions[emoji] = userIds.filter((id) => id !== userId);
+    }
+    message.reactions = reactions;
+  }
+
+  async getMessages(meetingId: string, query: MessagePageQuery): Promise<MessageHistoryPage> {
+    const meetingMessages = this.messages.get(meetingId) || new Map<string, ChatMessage>();
+    const sorted = Array.from(meetingMessages.values()).sort(compareMessages);
+
+    const cursorId = query.after || query.before;
+    let candidates: ChatMessage[];
+
+    if (cursorId) {
+      const cursor = meetingMessages.get(cursorId);
+      if (!cursor) {
+        throw new Error('Message not found');
+      }
+
+      candidates = query.after
+        ? sorted.filter((m) => compareMessages(m, cursor) > 0)
+        : sorted.filter((m) => compareMessages(m, cursor) < 0);
+    } else {
+      candidates = sorted;
+    }
+
+    // Newer pages take the first messages after the cursor, others the last ones
+    const page = query.after
+      ? candidates.slice(0, query.limit)
+      : candidates.slice(Math.max(candidates.length - query.limit, 0));
+
+    return {
+      messages: structuredClone(page),
+      hasMore: candidates.length > query.limit,
+    };
+  }
+
+  async getReadCursor(meetingId: string, userId: string): Promise<ReadCursor | null> {
+    const cursor = this.readCursors.get(meetingId)?.get(userId);
+    return cursor ? { ...cursor } : null;
+  }
+
+  async setReadCursor(meetingId: string, cursor: ReadCursor): Promise<void> {
+    const meetingCursors = this.readCursors.get(meetingId) || new Map<string, ReadCursor>();
+    meetingCursors.set(cursor.userId, { ...cursor });
+    this.readCursors.set(meetingId, meetingCursors);
+  }
+
+  async countUnreadMessages(
+    meetingId: string,
+    userId: string,
+    cursor?: ReadCursor | null
+  ): Promise<number> {
+    const meetingMessages = this.messages.get(meetingId) || new Map<string, ChatMessage>();
+
+    return Array.from(meetingMessages.values()).filter(
+      (message) =>
+        (!cursor || compareMessages(message, cursor) > 0) &&
+        message.userId !== userId &&
+        !message.deleted
+    ).length;
+  }
+
+  async saveInviteLink(link: InviteLink): Promise<void> {
+    const meetingLinks = this.inviteLinks.get(link.meetingId) || new Map<string, InviteLink>();
+    meetingLinks.set(link.tokenId, structuredClone(link));
+    this.inviteLinks.set(link.meetingId, meetingLinks);
+  }
+
+  async findInviteLinks(meetingId: string): Promise<InviteLink[]> {
+    return [...(this.inviteLinks.get(meetingId)?.values() || [])].map((link) =>
+      structuredClone(link)
+    );
+  }
+
+  async redeemInviteLink(
+    meetingId: string,
+    tokenId: string,
+    userId: string
+  ): Promise<InviteRedeemStatus> {
+    const link = this.inviteLinks.get(meetingId)?.get(tokenId);
+
+    if (!link) {
+      return 'not-found';
+    }
+
+    if (link.revoked) return 'revoked';
+    if (link.redeemedBy.includes(userId)) return 'already-redeemed';
+    if (link.maxUses !== null && link.uses >= link.maxUses) return 'exhausted';
+
+    link.uses += 1;
+    link.redeemedBy.push(userId);
+    return 'redeemed';
+  }
+
+  async revokeInviteLinks(meetingId: string, tokenIds?: string[]): Promise<number> {
+    const revokedAt = new Date().toISOString();
+    let revoked = 0;
+
+    for (const link of this.inviteLinks.get(meetingId)?.values() || []) {
+      if (!link.revoked && (!tokenIds || tokenIds.includes(link.tokenId))) {
+        link.revoked = true;
+        link.revokedAt = revokedAt;
+        revoked++;
+      }
+    }
+
+    return revoked;
+  }
+}
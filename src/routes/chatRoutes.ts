@@ -1,24 +1,51 @@
 import { Router } from 'express';
 import {
   getMeetingInfo,
+  getMeetingMessages,
+  getMessageThread,
   getServerStats,
 } from '../controllers/chatController';
+import { HTTP_RATE_LIMIT } from '../config/rateLimits';
+import { createRateLimiter } from '../middlewares/rateLimiter';
+import { serviceAuth } from '../middlewares/serviceAuth';
 
 const router = Router();
 
+// Per-IP limit for the public routes. Chat history is only served to the User Backend
+// (service auth), which checks access first and calls from a few IPs.
+const publicRateLimit = createRateLimiter(HTTP_RATE_LIMIT);
+
 /**
  * @route   GET /api/chat/meeting/:meetingId
  * @desc    Get meeting information
  * @access  Public (no auth needed - User Backend already validated)
  * @param   {string} meetingId - Meeting ID
  */
-router.get('/meeting/:meetingId', getMeetingInfo);
+router.get('/meeting/:meetingId', publicRateLimit, getMeetingInfo);
+
+/**
+ * @route   GET /api/chat/meeting/:meetingId/messages
+ * @desc    Get chat history (oldest first)
+ * @access  Internal (called from User Backend after checking the user's access)
+ * @param   {string} meetingId - Meeting ID
+ * @query   { before?, after?, limit? } - Cursor messageId and page size
+ */
+router.get('/meeting/:meetingId/messages', serviceAuth, getMeetingMessages);
+
+/**
+ * @route   GET /api/chat/meeting/:meetingId/messages/:messageId/thread
+ * @desc    Get a thread (first message and replies, oldest first)
+ * @access  Internal (called from User Backend after checking the user's access)
+ * @param   {string} meetingId - Meeting ID
+ * @param   {string} messageId - Any message in the thread
+ */
+router.get('/meeting/:meetingId/messages/:messageId/thread', serviceAuth, getMessageThread);
 
 /**
  * @route   GET /api/chat/stats
  * @desc    Get server statistics
  * @access  Public
  */
-router.get('/stats', getServerStats);
+router.get('/stats', publicRateLimit, getServerStats);
 
 export default router;
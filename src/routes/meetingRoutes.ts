@@ -2,21 +2,36 @@ import { Router } from 'express';
 import {
   createMeeting,
   getUserMeetings,
+  getUnreadCounts,
   getMeetingById,
   joinMeeting,
   leaveMeeting,
   deleteMeeting,
   updateMeeting,
   getTodayMeetings,
+  getSeriesMeetings,
+  getMeetingInvites,
+  inviteToMeeting,
+  removeMeetingInvite,
+  createInviteLink,
+  getInviteLinks,
+  revokeInviteLinks,
+  redeemInviteLink,
+  setMeetingRole,
+  transferMeetingHost,
 } from '../controllers/meetingController';
+import { serviceAuth } from '../middlewares/serviceAuth';
 
 const router = Router();
 
+// Every meeting route is internal: require an API key or a signed request
+router.use(serviceAuth);
+
 /**
  * @route   POST /api/meetings
  * @desc    Create a new meeting
  * @access  Internal (called from User Backend)
- * @body    { userId, title, description }
+ * @body    { userId, title, description, date, time, timezone?, recurrence?, visibility?, passcode?, invitedUsers? }
  */
 router.post('/', createMeeting);
 
@@ -28,14 +43,39 @@ router.post('/', createMeeting);
  */
 router.get('/user/:userId', getUserMeetings);
 
+/**
+ * @route   GET /api/meetings/user/:userId/unread
+ * @desc    Get unread chat message counts per meeting for a user
+ * @access  Internal (called from User Backend)
+ * @param   {string} userId - User ID
+ */
+router.get('/user/:userId/unread', getUnreadCounts);
+
 /**
  * @route   GET /api/meetings/today/:userId
  * @desc    Get today's meetings for a user
  * @access  Internal (called from User Backend)
  * @param   {string} userId - User ID
+ * @query   {string} timezone - Caller's IANA timezone (optional)
  */
 router.get('/today/:userId', getTodayMeetings);
 
+/**
+ * @route   POST /api/meetings/invite-links/redeem
+ * @desc    Redeem an invite link and become a participant
+ * @access  Internal (called from User Backend)
+ * @body    { token, userId }
+ */
+router.post('/invite-links/redeem', redeemInviteLink);
+
+/**
+ * @route   GET /api/meetings/series/:seriesId
+ * @desc    Get every occurrence of a recurring meeting
+ * @access  Internal (called from User Backend)
+ * @param   {string} seriesId - Series ID
+ */
+router.get('/series/:seriesId', getSeriesMeetings);
+
 /**
  * @route   GET /api/meetings/:meetingId
  * @desc    Get meeting by ID
@@ -49,7 +89,7 @@ router.get('/:meetingId', getMeetingById);
  * @desc    Join a meeting
  * @access  Internal (called from User Backend)
  * @param   {string} meetingId - Meeting ID
- * @body    { userId }
+ * @body    { userId, passcode? }
  */
 router.post('/:meetingId/join', joinMeeting);
 
@@ -62,12 +102,96 @@ router.post('/:meetingId/join', joinMeeting);
  */
 router.post('/:meetingId/leave', leaveMeeting);
 
+/**
+ * @route   GET /api/meetings/:meetingId/invites
+ * @desc    Get the users invited to a meeting (host or co-host)
+ * @access  Internal (called from User Backend)
+ * @param   {string} meetingId - Meeting ID
+ * @query   {string} userId - Host or co-host user ID
+ */
+router.get('/:meetingId/invites', getMeetingInvites);
+
+/**
+ * @route   POST /api/meetings/:meetingId/invites
+ * @desc    Invite users to a meeting (host or co-host)
+ * @access  Internal (called from User Backend)
+ * @param   {string} meetingId - Meeting ID
+ * @body    { userId, userIds }
+ */
+router.post('/:meetingId/invites', inviteToMeeting);
+
+/**
+ * @route   DELETE /api/meetings/:meetingId/invites/:invitedUserId
+ * @desc    Remove a user's invitation (host or co-host)
+ * @access  Internal (called from User Backend)
+ * @param   {string} meetingId - Meeting ID
+ * @param   {string} invitedUserId - Invited user ID
+ * @body    { userId }
+ */
+router.delete('/:meetingId/invites/:invitedUserId', removeMeetingInvite);
+
+/**
+ * @route   POST /api/meetings/:meetingId/invite-links
+ * @desc    Create a signed, expiring invite link (host or co-host)
+ * @access  Internal (called from User Backend)
+ * @param   {string} meetingId - Meeting ID
+ * @body    { userId, expiresInMinutes?, maxUses?, singleUse? }
+ */
+router.post('/:meetingId/invite-links', createInviteLink);
+
+/**
+ * @route   GET /api/meetings/:meetingId/invite-links
+ * @desc    Get a meeting's invite links (host or co-host)
+ * @access  Internal (called from User Backend)
+ * @param   {string} meetingId - Meeting ID
+ * @query   {string} userId - Host or co-host user ID
+ */
+router.get('/:meetingId/invite-links', getInviteLinks);
+
+/**
+ * @route   DELETE /api/meetings/:meetingId/invite-links
+ * @desc    Revoke every invite link of a meeting (host or co-host)
+ * @access  Internal (called from User Backend)
+ * @param   {string} meetingId - Meeting ID
+ * @body    { userId }
+ */
+router.delete('/:meetingId/invite-links', revokeInviteLinks);
+
+/**
+ * @route   DELETE /api/meetings/:meetingId/invite-links/:tokenId
+ * @desc    Revoke one invite link (host or co-host)
+ * @access  Internal (called from User Backend)
+ * @param   {string} meetingId - Meeting ID
+ * @param   {string} tokenId - Invite link ID
+ * @body    { userId }
+ */
+router.delete('/:meetingId/invite-links/:tokenId', revokeInviteLinks);
+
+/**
+ * @route   PUT /api/meetings/:meetingId/roles/:targetUserId
+ * @desc    Make a participant a co-host, viewer or participant (host only)
+ * @access  Internal (called from User Backend)
+ * @param   {string} meetingId - Meeting ID
+ * @param   {string} targetUserId - User whose role changes
+ * @body    { userId, role }
+ */
+router.put('/:meetingId/roles/:targetUserId', setMeetingRole);
+
+/**
+ * @route   POST /api/meetings/:meetingId/transfer-host
+ * @desc    Hand the meeting over to another participant (host only)
+ * @access  Internal (called from User Backend)
+ * @param   {string} meetingId - Meeting ID
+ * @body    { userId, newHostId }
+ */
+router.post('/:meetingId/transfer-host', transferMeetingHost);
+
 /**
  * @route   PUT /api/meetings/:meetingId
  * @desc    Update a meeting
  * @access  Internal (called from User Backend)
  * @param   {string} meetingId - Meeting ID
- * @body    { userId, title, description, status }
+ * @body    { userId, title, description, status, visibility?, passcode?, scope? }
  */
 router.put('/:meetingId', updateMeeting);
 
@@ -76,7 +200,7 @@ router.put('/:meetingId', updateMeeting);
  * @desc    Delete a meeting
  * @access  Internal (called from User Backend)
  * @param   {string} meetingId - Meeting ID
- * @body    { userId }
+ * @body    { userId, scope? }
  */
 router.delete('/:meetingId', deleteMeeting);
 
@@ -11,8 +11,12 @@ import morgan from 'morgan';
 import { initializeFirebase } from './config/firebase';
 import { initializeSocketIO } from './config/socket';
 import { errorHandler, notFoundHandler } from './middlewares/errorHandler';
+import { captureRawBody } from './middlewares/serviceAuth';
+import { getTokenVerifier } from './middlewares/socketAuth';
 import chatRoutes from './routes/chatRoutes';
 import meetingRoutes from './routes/meetingRoutes';
+import { getStorageDriver } from './repositories';
+import { getMeetingScheduler } from './services/meetingScheduler';
 import { logger } from './utils/logger';
 
 /**
@@ -34,6 +38,7 @@ class App {
     this.initializeFirebase();
     this.initializeRoutes();
     this.initializeSocketIO();
+    this.initializeScheduler();
     this.initializeErrorHandling();
   }
 
@@ -44,6 +49,14 @@ class App {
   private initializeMiddlewares(): void {
     // Security middleware
     this.app.use(helmet());
+
+    // Use the client IP from X-Forwarded-For when running behind a proxy (e.g. Render)
+    // TRUST_PROXY: "true", a hop count (e.g. 1) or a list of proxy addresses
+    const trustProxy = process.env.TRUST_PROXY;
+    if (trustProxy) {
+      const hops = Number(trustProxy);
+      this.app.set('trust proxy', trustProxy === 'true' ? true : isNaN(hops) ? trustProxy : hops);
+    }
     
     // CORS configuration - Supports multiple origins
     const corsOriginEnv = process.env.CORS_ORIGIN || 'http://localhost:5173';
@@ -77,9 +90,9 @@ class App {
       })
     );
 
-    // Body parser
-    this.app.use(express.json());
-    this.app.use(express.urlencoded({ extended: true }));
+    // Body parser (raw body kept for service request signatures)
+    this.app.use(express.json({ verify: captureRawBody }));
+    this.app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
 
     // Logging
     if (process.env.NODE_ENV !== 'production') {
@@ -90,11 +103,16 @@ class App {
   }
 
   /**
-   * Initialize Firebase Admin SDK
+   * Initialize Firebase Admin SDK (skipped with in-memory storage)
    * @private
    */
   private initializeFirebase(): void {
     try {
+      if (getStorageDriver() === 'memory') {
+        logger.warn('STORAGE_DRIVER=memory: Firebase not initialized, data is not persisted');
+        return;
+      }
+
       initializeFirebase();
       logger.success('Firebase initialized successfully');
     } catch (error) {
@@ -118,7 +136,7 @@ class App {
       });
     });
 
-    // API routes
+    // API routes (the public chat routes are rate limited per IP in chatRoutes)
     this.app.use('/api/chat', chatRoutes);
     this.app.use('/api/meetings', meetingRoutes);
 
@@ -131,9 +149,12 @@ class App {
         endpoints: {
           health: '/health',
           stats: '/api/chat/stats',
+          messages: 'GET /api/chat/meeting/:meetingId/messages',
+          thread: 'GET /api/chat/meeting/:meetingId/messages/:messageId/thread',
           meetings: {
             create: 'POST /api/meetings',
             list: 'GET /api/meetings/user/:userId',
+            unread: 'GET /api/meetings/user/:userId/unread',
             get: 'GET /api/meetings/:meetingId',
             update: 'PUT /api/meetings/:meetingId',
             delete: 'DELETE /api/meetings/:meetingId',
@@ -145,8 +166,25 @@ class App {
           join: 'join:meeting',
           leave: 'leave:meeting',
           message: 'chat:message',
+          history: 'chat:history',
+          edit: 'chat:edit',
+          delete: 'chat:delete',
+          react: 'chat:react',
+          unreact: 'chat:unreact',
+          private: 'chat:private',
+          read: 'chat:read',
           typing_start: 'typing:start',
           typing_stop: 'typing:stop',
+          kick: 'moderation:kick',
+          mute: 'moderation:mute',
+          ban: 'moderation:ban',
+          meeting_status: 'meeting:status',
+          lobby_admit: 'lobby:admit',
+          lobby_deny: 'lobby:deny',
+          lobby_leave: 'lobby:leave',
+          role_set: 'role:set',
+          host_transfer: 'host:transfer',
+          session_resume: 'session:resume',
         },
       });
     });
@@ -157,8 +195,21 @@ class App {
    * @private
    */
   private initializeSocketIO(): void {
-    this.io = initializeSocketIO(this.server);
-    logger.success('Socket.IO initialized successfully');
+    try {
+      this.io = initializeSocketIO(this.server, getTokenVerifier());
+      logger.success('Socket.IO initialized successfully');
+    } catch (error) {
+      logger.error('Error initializing Socket.IO:', error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Start the meeting lifecycle scheduler
+   * @private
+   */
+  private initializeScheduler(): void {
+    getMeetingScheduler().start();
   }
 
   /**
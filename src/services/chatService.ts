@@ -1,15 +1,64 @@
-import { getFirestoreInstance } from '../config/firebase';
+import { getMeetingRepository, MeetingRepository, StoredMeeting } from '../repositories';
 import { logger } from '../utils/logger';
+import {
+  canTransition,
+  getJoinRejection,
+  getMeetingStartTime,
+  normalizeMeetingStatus,
+  OPEN_MEETING_STATUSES,
+} from '../utils/meetingStatus';
+import { getDateInTimeZone } from '../utils/timezone';
+import { getMeetingRole } from '../utils/permissions';
+import {
+  generateInviteTokenId,
+  InviteTokenPayload,
+  signInviteToken,
+  verifyInviteToken,
+} from '../utils/inviteToken';
+import {
+  ChatMessage,
+  HostChange,
+  InviteLink,
+  InviteRedeemStatus,
+  JoinRejection,
+  Meeting,
+  MeetingRole,
+  MeetingRoleChange,
+  MeetingStatus,
+  MeetingStatusChange,
+  MessageHistoryPage,
+  ChatMessageView,
+  MessageHistoryQuery,
+  MessageQuote,
+  MessageThread,
+  ReactionSummary,
+  ReadCursor,
+  UnreadCount,
+} from '../types';
+
+// Chat history page size limits
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 100;
+
+// Maximum length of a quoted snippet in replies
+const QUOTE_SNIPPET_LENGTH = 140;
+
+// A reaction is a short string containing at least one emoji
+const MAX_EMOJI_LENGTH = 16;
+const EMOJI_REGEX = /\p{Extended_Pictographic}/u;
+
+// Users may join a scheduled meeting this long before it starts
+const EARLY_JOIN_MS = parseInt(process.env.MEETING_EARLY_JOIN_MINUTES || '15', 10) * 60 * 1000;
 
 /**
  * Chat service for managing meeting rooms
  * @class ChatService
  */
 export class ChatService {
-  private db: FirebaseFirestore.Firestore;
+  private repository: MeetingRepository;
 
-  constructor() {
-    this.db = getFirestoreInstance();
+  constructor(repository: MeetingRepository = getMeetingRepository()) {
+    this.repository = repository;
   }
 
   /**
@@ -19,10 +68,43 @@ export class ChatService {
    */
   async createMeeting(meetingData: any): Promise<void> {
     try {
-      await this.db.collection('meetings').doc(meetingData.meetingId).set(meetingData);
-      logger.info(`Meeting created in Firestore: ${meetingData.meetingId}`);
+      await this.repository.create(meetingData);
+      logger.info(`Meeting created: ${meetingData.meetingId}`);
+    } catch (error) {
+      logger.error('Error creating meeting', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create every occurrence of a recurring meeting
+   * @param {Meeting[]} occurrences - Meeting data per occurrence (sharing a seriesId)
+   * @returns {Promise<void>}
+   */
+  async createMeetingSeries(occurrences: Meeting[]): Promise<void> {
+    try {
+      await Promise.all(occurrences.map((occurrence) => this.repository.create(occurrence)));
+      logger.info(`Meeting series created: ${occurrences[0]?.seriesId} (${occurrences.length} occurrences)`);
     } catch (error) {
-      logger.error('Error creating meeting in Firestore', error);
+      logger.error('Error creating meeting series', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every occurrence of a recurring meeting
+   * @param {string} seriesId - Series ID
+   * @returns {Promise<StoredMeeting[]>} Occurrences sorted by date and time
+   */
+  async getSeriesMeetings(seriesId: string): Promise<StoredMeeting[]> {
+    try {
+      const occurrences = await this.repository.findBySeries(seriesId);
+
+      return occurrences.sort(
+        (a, b) => getMeetingStartTime(a).getTime() - getMeetingStartTime(b).getTime()
+      );
+    } catch (error) {
+      logger.error(`Error fetching meeting series ${seriesId}`, error);
       throw error;
     }
   }
@@ -30,28 +112,20 @@ export class ChatService {
   /**
    * Get all meetings for a user
    * @param {string} userId - User ID
-   * @returns {Promise<any[]>} Array of meetings
+   * @returns {Promise<StoredMeeting[]>} Array of meetings
    */
-  async getUserMeetings(userId: string): Promise<any[]> {
+  async getUserMeetings(userId: string): Promise<StoredMeeting[]> {
     try {
       // First get all meetings that include the user
-      const snapshot = await this.db
-        .collection('meetings')
-        .where('participants', 'array-contains', userId)
-        .get();
+      const userMeetings = await this.repository.findByParticipant(userId);
 
       // Sort locally by createdAt descending to avoid Firestore composite index issues
-      const meetings = snapshot.docs
-        .map((doc) => ({
-          id: doc.id,
-          ...doc.data(),
-        }))
-        .sort((a: any, b: any) => {
-          // Sort by createdAt desc (newest first)
-          const aDate = new Date(a.createdAt || 0);
-          const bDate = new Date(b.createdAt || 0);
-          return bDate.getTime() - aDate.getTime();
-        });
+      const meetings = userMeetings.sort((a, b) => {
+        // Sort by createdAt desc (newest first)
+        const aDate = new Date(a.createdAt || 0);
+        const bDate = new Date(b.createdAt || 0);
+        return bDate.getTime() - aDate.getTime();
+      });
 
       logger.info(`Found ${meetings.length} meetings for user ${userId}`);
       return meetings;
@@ -62,14 +136,14 @@ export class ChatService {
   }
 
   /**
-   * Check if a meeting exists in Firestore
+   * Check if a meeting exists
    * @param {string} meetingId - Meeting ID
    * @returns {Promise<boolean>} True if meeting exists
    */
   async meetingExists(meetingId: string): Promise<boolean> {
     try {
-      const doc = await this.db.collection('meetings').doc(meetingId).get();
-      return doc.exists;
+      const meeting = await this.repository.findById(meetingId);
+      return meeting !== null;
     } catch (error) {
       logger.error(`Error checking if meeting exists: ${meetingId}`, error);
       return false;
@@ -83,16 +157,13 @@ export class ChatService {
    */
   async getMeetingInfo(meetingId: string): Promise<any> {
     try {
-      const doc = await this.db.collection('meetings').doc(meetingId).get();
-      
-      if (!doc.exists) {
+      const meeting = await this.repository.findById(meetingId);
+
+      if (!meeting) {
         throw new Error('Meeting not found');
       }
 
-      return {
-        id: doc.id,
-        ...doc.data(),
-      };
+      return meeting;
     } catch (error) {
       logger.error(`Error fetching meeting info: ${meetingId}`, error);
       throw error;
@@ -100,7 +171,167 @@ export class ChatService {
   }
 
   /**
-   * Add a participant to the meeting's participants list in Firestore
+   * Check the join rules (ban, visibility, status and early-join window) for a user
+   * @param {Meeting} meeting - Meeting
+   * @param {string} userId - Joining user
+   * @param {string} passcode - Passcode given by the user (optional)
+   * @returns {JoinRejection | null} Why the join is refused, or null if allowed
+   */
+  checkJoin(meeting: Meeting, userId: string, passcode?: string): JoinRejection | null {
+    return getJoinRejection(meeting, userId, new Date(), EARLY_JOIN_MS, passcode);
+  }
+
+  /**
+   * Add users to an invite-only meeting's invited list
+   * @param {string} meetingId - Meeting ID
+   * @param {string[]} userIds - Users to invite
+   * @returns {Promise<string[]>} Invited users after the change
+   */
+  async inviteUsers(meetingId: string, userIds: string[]): Promise<string[]> {
+    try {
+      const meeting = await this.getMeetingInfo(meetingId);
+      const invitedUsers = [...new Set([...(meeting.invitedUsers || []), ...userIds])];
+
+      await this.repository.update(meetingId, {
+        invitedUsers,
+        updatedAt: new Date().toISOString(),
+      });
+
+      logger.info(`Invited ${userIds.length} users to meeting ${meetingId}`);
+      return invitedUsers;
+    } catch (error) {
+      logger.error(`Error inviting users to meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user from a meeting's invited list
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User to uninvite
+   * @returns {Promise<string[]>} Invited users after the change
+   */
+  async uninviteUser(meetingId: string, userId: string): Promise<string[]> {
+    try {
+      const meeting = await this.getMeetingInfo(meetingId);
+      const invitedUsers = (meeting.invitedUsers || []).filter((id: string) => id !== userId);
+
+      await this.repository.update(meetingId, {
+        invitedUsers,
+        updatedAt: new Date().toISOString(),
+      });
+
+      logger.info(`Removed invitation of user ${userId} to meeting ${meetingId}`);
+      return invitedUsers;
+    } catch (error) {
+      logger.error(`Error removing invitation of user ${userId} to meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a signed invite link for a meeting
+   * @param {string} meetingId - Meeting ID
+   * @param {string} createdBy - Host user ID
+   * @param {number} ttlMs - Time until the link expires
+   * @param {number | null} maxUses - Redemptions allowed (null for unlimited)
+   * @returns {Promise<{ link: InviteLink; token: string }>} Stored link and its token
+   */
+  async createInviteLink(
+    meetingId: string,
+    createdBy: string,
+    ttlMs: number,
+    maxUses: number | null
+  ): Promise<{ link: InviteLink; token: string }> {
+    try {
+      const now = Date.now();
+      const link: InviteLink = {
+        tokenId: generateInviteTokenId(),
+        meetingId,
+        createdBy,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + ttlMs).toISOString(),
+        maxUses,
+        uses: 0,
+        redeemedBy: [],
+        revoked: false,
+      };
+
+      // Sign first so a missing secret doesn't leave an unusable link behind
+      const token = signInviteToken({ tid: link.tokenId, mid: meetingId, exp: now + ttlMs });
+      await this.repository.saveInviteLink(link);
+
+      logger.info(`Invite link ${link.tokenId} created for meeting ${meetingId}`);
+      return { link, token };
+    } catch (error) {
+      logger.error(`Error creating invite link for meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a meeting's invite links, newest first
+   * @param {string} meetingId - Meeting ID
+   * @returns {Promise<InviteLink[]>} Invite links
+   */
+  async getInviteLinks(meetingId: string): Promise<InviteLink[]> {
+    try {
+      const links = await this.repository.findInviteLinks(meetingId);
+      return links.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      logger.error(`Error fetching invite links for meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke invite links so they can no longer be redeemed
+   * @param {string} meetingId - Meeting ID
+   * @param {string[]} tokenIds - Links to revoke (all when omitted)
+   * @returns {Promise<number>} Number of links revoked
+   */
+  async revokeInviteLinks(meetingId: string, tokenIds?: string[]): Promise<number> {
+    try {
+      const revoked = await this.repository.revokeInviteLinks(meetingId, tokenIds);
+      logger.info(`Revoked ${revoked} invite links of meeting ${meetingId}`);
+      return revoked;
+    } catch (error) {
+      logger.error(`Error revoking invite links of meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check an invite token's signature and read it
+   * @param {string} token - Invite token
+   * @returns {InviteTokenPayload | null} Payload, or null if the token is invalid
+   */
+  readInviteToken(token: string): InviteTokenPayload | null {
+    return verifyInviteToken(token);
+  }
+
+  /**
+   * Use up one redemption of an invite link for a user
+   * @param {string} meetingId - Meeting ID
+   * @param {string} tokenId - Invite link ID
+   * @param {string} userId - Redeeming user
+   * @returns {Promise<InviteRedeemStatus>} Outcome
+   */
+  async redeemInviteLink(
+    meetingId: string,
+    tokenId: string,
+    userId: string
+  ): Promise<InviteRedeemStatus> {
+    try {
+      return await this.repository.redeemInviteLink(meetingId, tokenId, userId);
+    } catch (error) {
+      logger.error(`Error redeeming invite link ${tokenId} of meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a participant to the meeting's participants list
    * This maintains a persistent record of everyone who has ever connected
    * @param {string} meetingId - Meeting ID
    * @param {string} userId - User ID to add
@@ -108,20 +339,18 @@ export class ChatService {
    */
   async addParticipantToMeeting(meetingId: string, userId: string): Promise<void> {
     try {
-      const meetingRef = this.db.collection('meetings').doc(meetingId);
-      const meetingDoc = await meetingRef.get();
+      const meeting = await this.repository.findById(meetingId);
 
-      if (!meetingDoc.exists) {
+      if (!meeting) {
         logger.warn(`Meeting ${meetingId} does not exist, cannot add participant`);
         return;
       }
 
-      const meetingData = meetingDoc.data();
-      const participants = meetingData?.participants || [];
+      const participants = meeting.participants || [];
 
       // Only add if not already in the list
       if (!participants.includes(userId)) {
-        await meetingRef.update({
+        await this.repository.update(meetingId, {
           participants: [...participants, userId],
           updatedAt: new Date().toISOString(),
         });
@@ -134,6 +363,34 @@ export class ChatService {
     }
   }
 
+  /**
+   * Add a user to the meeting's banned list so they cannot join again
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User ID to ban
+   * @returns {Promise<void>}
+   */
+  async banUserFromMeeting(meetingId: string, userId: string): Promise<void> {
+    try {
+      const meeting = await this.repository.findById(meetingId);
+
+      if (!meeting) {
+        throw new Error('Meeting not found');
+      }
+
+      if (!meeting.bannedUsers?.includes(userId)) {
+        // Array union, so a concurrent ban of another user is not overwritten
+        await this.repository.addBannedUser(meetingId, userId, {
+          updatedAt: new Date().toISOString(),
+        });
+
+        logger.info(`Banned user ${userId} from meeting ${meetingId}`);
+      }
+    } catch (error) {
+      logger.error(`Error banning user ${userId} from meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Update meeting's active participants count (currently connected in real-time)
    * @param {string} meetingId - Meeting ID
@@ -145,7 +402,7 @@ export class ChatService {
       const meetingExists = await this.meetingExists(meetingId);
       
       if (meetingExists) {
-        await this.db.collection('meetings').doc(meetingId).update({
+        await this.repository.update(meetingId, {
           activeParticipants,
           updatedAt: new Date().toISOString(),
         });
@@ -166,7 +423,7 @@ export class ChatService {
    */
   async updateMeeting(meetingId: string, updateData: any): Promise<void> {
     try {
-      await this.db.collection('meetings').doc(meetingId).update(updateData);
+      await this.repository.update(meetingId, updateData);
       logger.info(`Meeting updated: ${meetingId}`);
     } catch (error) {
       logger.error(`Error updating meeting ${meetingId}`, error);
@@ -174,6 +431,149 @@ export class ChatService {
     }
   }
 
+  /**
+   * Move a meeting to a new lifecycle status
+   * The write only applies if the stored status is still the one read here.
+   * @param {string} meetingId - Meeting ID
+   * @param {MeetingStatus} status - New status
+   * @param {Partial<Meeting>} data - Other fields to write in the same update (optional)
+   * @returns {Promise<MeetingStatusChange | null>} The change, or null if the meeting already has that status
+   * @throws {Error} If the meeting does not exist, the transition is not allowed or the status changed meanwhile
+   */
+  async changeMeetingStatus(
+    meetingId: string,
+    status: MeetingStatus,
+    data: Partial<Meeting> = {}
+  ): Promise<MeetingStatusChange | null> {
+    const meeting = await this.getMeetingInfo(meetingId);
+    const previousStatus = normalizeMeetingStatus(meeting.status);
+    const nextStatus = normalizeMeetingStatus(status);
+
+    if (previousStatus === nextStatus) {
+      return null;
+    }
+
+    if (!canTransition(previousStatus, nextStatus)) {
+      throw new Error(`Cannot change status from ${previousStatus} to ${nextStatus}`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const updateData: Partial<Meeting> = { ...data, status: nextStatus, updatedAt: timestamp };
+
+    if (nextStatus === 'live') updateData.startedAt = timestamp;
+    if (nextStatus === 'completed' || nextStatus === 'cancelled') updateData.endedAt = timestamp;
+
+    if (!(await this.repository.updateIfStatus(meetingId, meeting.status, updateData))) {
+      throw new Error('The status changed in the meantime');
+    }
+    logger.info(`Meeting ${meetingId} status: ${previousStatus} -> ${nextStatus}`);
+
+    return { meetingId, status: nextStatus, previousStatus, timestamp };
+  }
+
+  /**
+   * Set a user's role in a meeting
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User whose role changes
+   * @param {MeetingRole} role - New role (not host)
+   * @param {string} byUserId - User making the change
+   * @returns {Promise<MeetingRoleChange | null>} The change, or null if the user already has that role
+   * @throws {Error} If the user is the host, not a participant or the host changed meanwhile
+   */
+  async setMeetingRole(
+    meetingId: string,
+    userId: string,
+    role: MeetingRole,
+    byUserId: string
+  ): Promise<MeetingRoleChange | null> {
+    const meeting = await this.getMeetingInfo(meetingId);
+
+    if (role === 'host' || meeting.hostId === userId) {
+      throw new Error('Use a host transfer to change the host');
+    }
+
+    if (!meeting.participants?.includes(userId)) {
+      throw new Error('User is not a participant of the meeting');
+    }
+
+    const previousRole = getMeetingRole(meeting, userId);
+    if (previousRole === role) {
+      return null;
+    }
+
+    // Only roles other than participant are stored; the host check keeps the user
+    // from being made host in the meantime
+    const timestamp = new Date().toISOString();
+    const changed = await this.repository.updateIfHost(
+      meetingId,
+      meeting.hostId,
+      { updatedAt: timestamp },
+      { [userId]: role === 'participant' ? null : role }
+    );
+
+    if (!changed) {
+      throw new Error('The host changed in the meantime');
+    }
+
+    logger.info(`Meeting ${meetingId} role of ${userId}: ${previousRole} -> ${role}`);
+
+    return { meetingId, userId, role, previousRole, byUserId, timestamp };
+  }
+
+  /**
+   * Make another participant the host; the previous host becomes a co-host
+   * @param {string} meetingId - Meeting ID
+   * @param {string} newHostId - New host user ID
+   * @param {HostChange['reason']} reason - Why the host changes
+   * @returns {Promise<HostChange | null>} The change, or null if the user already is the host
+   * @throws {Error} If the user is not a participant or the host changed meanwhile
+   */
+  async changeHost(
+    meetingId: string,
+    newHostId: string,
+    reason: HostChange['reason']
+  ): Promise<HostChange | null> {
+    const meeting = await this.getMeetingInfo(meetingId);
+    const previousHostId = meeting.hostId;
+
+    if (previousHostId === newHostId) {
+      return null;
+    }
+
+    if (!meeting.participants?.includes(newHostId)) {
+      throw new Error('User is not a participant of the meeting');
+    }
+
+    const timestamp = new Date().toISOString();
+    const changed = await this.repository.updateIfHost(
+      meetingId,
+      previousHostId,
+      { hostId: newHostId, updatedAt: timestamp },
+      { [previousHostId]: 'co-host', [newHostId]: null }
+    );
+
+    if (!changed) {
+      throw new Error('The host changed in the meantime');
+    }
+
+    logger.info(`Meeting ${meetingId} host: ${previousHostId} -> ${newHostId} (${reason})`);
+
+    return { meetingId, hostId: newHostId, previousHostId, reason, timestamp };
+  }
+
+  /**
+   * Get meetings the lifecycle scheduler still has to watch
+   * @returns {Promise<StoredMeeting[]>} Scheduled and live meetings
+   */
+  async getOpenMeetings(): Promise<StoredMeeting[]> {
+    try {
+      return await this.repository.findByStatus(OPEN_MEETING_STATUSES);
+    } catch (error) {
+      logger.error('Error fetching open meetings', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a meeting
    * @param {string} meetingId - Meeting ID
@@ -181,7 +581,7 @@ export class ChatService {
    */
   async deleteMeeting(meetingId: string): Promise<void> {
     try {
-      await this.db.collection('meetings').doc(meetingId).delete();
+      await this.repository.delete(meetingId);
       logger.info(`Meeting deleted: ${meetingId}`);
     } catch (error) {
       logger.error(`Error deleting meeting ${meetingId}`, error);
@@ -191,32 +591,49 @@ export class ChatService {
 
   /**
    * Get today's meetings for a user
+   * A meeting is on the date if it starts on that day in the caller's timezone.
    * @param {string} userId - User ID
    * @param {string} date - Date in YYYY-MM-DD format
-   * @returns {Promise<any[]>} Array of today's meetings
+   * @param {string} timeZone - Caller's IANA timezone
+   * @returns {Promise<StoredMeeting[]>} Array of today's meetings, by start time
    */
-  async getTodayMeetings(userId: string, date: string): Promise<any[]> {
+  async getTodayMeetings(
+    userId: string,
+    date: string,
+    timeZone: string
+  ): Promise<StoredMeeting[]> {
     try {
       // First get all meetings for the user
-      const snapshot = await this.db
-        .collection('meetings')
-        .where('participants', 'array-contains', userId)
-        .get();
+      const userMeetings = await this.repository.findByParticipant(userId);
+
+      const isOnDate = (meeting: Meeting): boolean => {
+        const start = getMeetingStartTime(meeting);
+        return isNaN(start.getTime())
+          ? meeting.date === date
+          : getDateInTimeZone(start, timeZone) === date;
+      };
 
       // Filter by date locally to avoid Firestore composite index issues
-      const meetings = snapshot.docs
-        .map((doc) => ({
-          id: doc.id,
-          ...doc.data(),
-        }))
-        .filter((meeting: any) => meeting.date === date)
-        .sort((a: any, b: any) => {
-          // Sort by time
-          if (a.time && b.time) {
-            return a.time.localeCompare(b.time);
-          }
-          return 0;
-        });
+      const todayMeetings = userMeetings.filter(isOnDate);
+
+      // Joining one occurrence of a series makes the user part of the series,
+      // so add today's occurrence of those series as well
+      const todaySeriesIds = new Set(todayMeetings.map((meeting) => meeting.seriesId));
+      const otherSeriesIds = new Set(
+        userMeetings
+          .map((meeting) => meeting.seriesId)
+          .filter((seriesId): seriesId is string => !!seriesId && !todaySeriesIds.has(seriesId))
+      );
+
+      for (const seriesId of otherSeriesIds) {
+        const occurrences = await this.repository.findBySeries(seriesId);
+        todayMeetings.push(...occurrences.filter(isOnDate));
+      }
+
+      // Sort by start time
+      const meetings = todayMeetings.sort(
+        (a, b) => getMeetingStartTime(a).getTime() - getMeetingStartTime(b).getTime()
+      );
 
       logger.info(`Found ${meetings.length} meetings for user ${userId} on ${date}`);
       return meetings;
@@ -225,4 +642,337 @@ export class ChatService {
       throw error;
     }
   }
+
+  /**
+   * Save a chat message in the meeting's history
+   * @param {ChatMessage} message - Chat message to store
+   * @returns {Promise<void>}
+   */
+  async saveMessage(message: ChatMessage): Promise<void> {
+    try {
+      await this.repository.saveMessage(message);
+    } catch (error) {
+      logger.error(`Error saving message in meeting ${message.meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single chat message
+   * @param {string} meetingId - Meeting ID
+   * @param {string} messageId - Message ID
+   * @returns {Promise<ChatMessage | null>} Message or null if not found
+   */
+  async getMessage(meetingId: string, messageId: string): Promise<ChatMessage | null> {
+    try {
+      return await this.repository.findMessage(meetingId, messageId);
+    } catch (error) {
+      logger.error(`Error fetching message ${messageId} in meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the reply fields for a message replying to another one
+   * Replies to replies join the same thread.
+   * @param {string} meetingId - Meeting ID
+   * @param {string} replyToMessageId - ID of the message being replied to
+   * @returns {Promise<Pick<ChatMessage, 'replyToMessageId' | 'threadId' | 'quote'>>} Reply fields
+   * @throws {Error} 'Message not found' if the parent is not in this meeting, or is deleted
+   */
+  async buildReply(
+    meetingId: string,
+    replyToMessageId: string
+  ): Promise<Pick<ChatMessage, 'replyToMessageId' | 'threadId' | 'quote'>> {
+    const parent = await this.getMessage(meetingId, replyToMessageId);
+
+    if (!parent || parent.deleted) {
+      throw new Error('Message not found');
+    }
+
+    const snippet =
+      parent.message.length > QUOTE_SNIPPET_LENGTH
+        ? `${parent.message.slice(0, QUOTE_SNIPPET_LENGTH)}…`
+        : parent.message;
+
+    const quote: MessageQuote = {
+      messageId: parent.messageId,
+      userId: parent.userId,
+      snippet,
+    };
+    if (parent.username) {
+      quote.username = parent.username;
+    }
+
+    return {
+      replyToMessageId: parent.messageId,
+      threadId: parent.threadId || parent.messageId,
+      quote,
+    };
+  }
+
+  /**
+   * Get a thread: its first message and all replies, oldest first
+   * @param {string} meetingId - Meeting ID
+   * @param {string} messageId - ID of any message in the thread
+   * @returns {Promise<MessageThread>} Thread
+   * @throws {Error} 'Message not found' if the message does not exist
+   */
+  async getThread(meetingId: string, messageId: string): Promise<MessageThread> {
+    try {
+      const message = await this.repository.findMessage(meetingId, messageId);
+
+      if (!message) {
+        throw new Error('Message not found');
+      }
+
+      const rootId = message.threadId || message.messageId;
+      const root =
+        rootId === message.messageId
+          ? message
+          : await this.repository.findMessage(meetingId, rootId);
+
+      if (!root) {
+        throw new Error('Message not found');
+      }
+
+      // Sort locally to avoid Firestore composite index issues
+      const replies = (await this.repository.findThreadReplies(meetingId, rootId)).sort(
+        (a, b) => a.timestamp.localeCompare(b.timestamp) || a.messageId.localeCompare(b.messageId)
+      );
+
+      return {
+        root: this.toMessageView(root),
+        replies: replies.map((reply) => this.toMessageView(reply)),
+      };
+    } catch (error) {
+      logger.error(`Error fetching thread for message ${messageId} in meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the text of a stored message
+   * @param {string} meetingId - Meeting ID
+   * @param {string} messageId - Message ID
+   * @param {string} message - New text
+   * @returns {Promise<ChatMessageView>} Updated message
+   */
+  async editMessage(meetingId: string, messageId: string, message: string): Promise<ChatMessageView> {
+    try {
+      await this.repository.updateMessage(meetingId, messageId, {
+        message,
+        editedAt: new Date().toISOString(),
+      });
+
+      return this.toMessageView((await this.repository.findMessage(meetingId, messageId)) as ChatMessage);
+    } catch (error) {
+      logger.error(`Error editing message ${messageId} in meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a stored message with a tombstone (text cleared, position kept)
+   * The quote snippets of direct replies are cleared too.
+   * @param {string} meetingId - Meeting ID
+   * @param {string} messageId - Message ID
+   * @returns {Promise<ChatMessageView>} Tombstone message
+   */
+  async deleteMessage(meetingId: string, messageId: string): Promise<ChatMessageView> {
+    try {
+      await this.repository.updateMessage(meetingId, messageId, {
+        message: '',
+        deleted: true,
+        deletedAt: new Date().toISOString(),
+      });
+
+      const tombstone = (await this.repository.findMessage(meetingId, messageId)) as ChatMessage;
+
+      // Replies to the message are in its thread
+      const replies = await this.repository.findThreadReplies(
+        meetingId,
+        tombstone.threadId || tombstone.messageId
+      );
+      for (const reply of replies) {
+        if (reply.replyToMessageId === messageId && reply.quote) {
+          await this.repository.updateMessage(meetingId, reply.messageId, {
+            quote: { ...reply.quote, snippet: '', deleted: true },
+          });
+        }
+      }
+
+      return this.toMessageView(tombstone);
+    } catch (error) {
+      logger.error(`Error deleting message ${messageId} in meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a string is an acceptable reaction emoji
+   * @param {string} emoji - Emoji to check
+   * @returns {boolean} True if valid
+   */
+  isValidEmoji(emoji: string): boolean {
+    return typeof emoji === 'string' && emoji.length <= MAX_EMOJI_LENGTH && EMOJI_REGEX.test(emoji);
+  }
+
+  /**
+   * Add or remove a user's emoji reaction on a message
+   * @param {string} meetingId - Meeting ID
+   * @param {string} messageId - Message ID
+   * @param {string} emoji - Emoji
+   * @param {string} userId - Reacting user ID
+   * @param {boolean} reacted - True to add, false to remove
+   * @returns {Promise<ReactionSummary[]>} Updated reaction summary
+   * @throws {Error} 'Message not found' if the message does not exist or is deleted
+   */
+  async setReaction(
+    meetingId: string,
+    messageId: string,
+    emoji: string,
+    userId: string,
+    reacted: boolean
+  ): Promise<ReactionSummary[]> {
+    try {
+      const message = await this.repository.findMessage(meetingId, messageId);
+
+      if (!message || message.deleted) {
+        throw new Error('Message not found');
+      }
+
+      await this.repository.setReaction(meetingId, messageId, emoji, userId, reacted);
+
+      const updated = await this.repository.findMessage(meetingId, messageId);
+      return this.summarizeReactions(updated?.reactions);
+    } catch (error) {
+      logger.error(`Error updating reaction on message ${messageId} in meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn a message's reactions map into per-emoji counts
+   * @param {Record<string, string[]>} reactions - Emoji → user IDs
+   * @returns {ReactionSummary[]} Emojis with at least one reaction, most used first
+   */
+  summarizeReactions(reactions: Record<string, string[]> = {}): ReactionSummary[] {
+    return Object.entries(reactions)
+      .filter(([, userIds]) => userIds.length > 0)
+      .map(([emoji, userIds]) => ({ emoji, count: userIds.length, userIds }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Shape a stored message for clients (reactions as in chat:reactions)
+   * @param {ChatMessage} message - Stored message
+   * @returns {ChatMessageView} Message for clients
+   */
+  toMessageView(message: ChatMessage): ChatMessageView {
+    return { ...message, reactions: this.summarizeReactions(message.reactions) };
+  }
+
+  /**
+   * Get a page of chat messages for a meeting
+   * Without a cursor the most recent messages are returned.
+   * @param {string} meetingId - Meeting ID
+   * @param {MessageHistoryQuery} query - Cursor (before/after a messageId) and page size
+   * @returns {Promise<MessageHistoryPage<ChatMessageView>>} Messages sorted oldest first
+   */
+  async getMessages(
+    meetingId: string,
+    query: MessageHistoryQuery = {}
+  ): Promise<MessageHistoryPage<ChatMessageView>> {
+    try {
+      const limit = Math.min(Math.max(query.limit || DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT);
+
+      const page = await this.repository.getMessages(meetingId, {
+        before: query.before,
+        after: query.after,
+        limit,
+      });
+
+      return {
+        messages: page.messages.map((message) => this.toMessageView(message)),
+        hasMore: page.hasMore,
+      };
+    } catch (error) {
+      logger.error(`Error fetching messages for meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a user's read cursor to a message (never backwards)
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User ID
+   * @param {string} messageId - Last message the user has seen
+   * @returns {Promise<ReadCursor | null>} New cursor, or null if it did not move
+   * @throws {Error} 'Message not found' if the message does not exist
+   */
+  async markMessageRead(
+    meetingId: string,
+    userId: string,
+    messageId: string
+  ): Promise<ReadCursor | null> {
+    try {
+      const message = await this.repository.findMessage(meetingId, messageId);
+
+      if (!message) {
+        throw new Error('Message not found');
+      }
+
+      const current = await this.repository.getReadCursor(meetingId, userId);
+      if (
+        current &&
+        (current.messageId === messageId ||
+          current.timestamp > message.timestamp ||
+          (current.timestamp === message.timestamp && current.messageId > messageId))
+      ) {
+        return null;
+      }
+
+      const cursor: ReadCursor = {
+        userId,
+        messageId,
+        timestamp: message.timestamp,
+        readAt: new Date().toISOString(),
+      };
+
+      await this.repository.setReadCursor(meetingId, cursor);
+      return cursor;
+    } catch (error) {
+      logger.error(`Error updating read cursor for user ${userId} in meeting ${meetingId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get unread message counts for every meeting of a user
+   * @param {string} userId - User ID
+   * @returns {Promise<UnreadCount[]>} Unread count per meeting
+   */
+  async getUnreadCounts(userId: string): Promise<UnreadCount[]> {
+    try {
+      const meetings = await this.getUserMeetings(userId);
+
+      return await Promise.all(
+        meetings.map(async (meeting) => {
+          const cursor = await this.repository.getReadCursor(meeting.id, userId);
+          const unread = await this.repository.countUnreadMessages(meeting.id, userId, cursor);
+
+          return {
+            meetingId: meeting.id,
+            title: meeting.title,
+            unread,
+            lastReadMessageId: cursor?.messageId,
+          };
+        })
+      );
+    } catch (error) {
+      logger.error(`Error fetching unread counts for user ${userId}`, error);
+      throw error;
+    }
+  }
 }
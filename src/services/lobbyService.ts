@@ -0,0 +1,143 @@
+import { getPresenceStore, PresenceStore, RemovedLobbyEntry } from '../presence';
+import { LobbyEntry, Meeting } from '../types';
+import { hasPermission } from '../utils/permissions';
+
+/**
+ * Waiting rooms: users held until the host admits or denies them
+ * State lives in the presence store so every server instance sees the same lobbies.
+ * @class LobbyService
+ */
+export class LobbyService {
+  private readonly presenceStore: PresenceStore;
+
+  constructor(presenceStore: PresenceStore = getPresenceStore()) {
+    this.presenceStore = presenceStore;
+  }
+
+  /**
+   * Check if a user has to wait in the lobby before joining
+   * The host, co-hosts, admitted users and users already in the meeting skip it.
+   * Used by the socket and REST joins alike.
+   * @param {Meeting} meeting - Meeting being joined
+   * @param {string} userId - Joining user ID
+   * @returns {Promise<boolean>} True if the user must wait
+   */
+  async needsLobby(meeting: Meeting, userId: string): Promise<boolean> {
+    if (!meeting.lobbyEnabled || hasPermission(meeting, userId, 'admit')) {
+      return false;
+    }
+
+    if (await this.isAdmitted(meeting.meetingId, userId)) {
+      return false;
+    }
+
+    const participants = await this.presenceStore.getParticipants(meeting.meetingId);
+    return !participants.some((p) => p.userId === userId);
+  }
+
+  /**
+   * Put a user in the lobby (a user already waiting keeps their place)
+   * @param {string} meetingId - Meeting ID
+   * @param {LobbyEntry} entry - Waiting user
+   * @returns {Promise<boolean>} True if the user was not waiting before
+   */
+  enqueue(meetingId: string, entry: LobbyEntry): Promise<boolean> {
+    return this.presenceStore.enqueueLobby(meetingId, entry);
+  }
+
+  /**
+   * Take a user out of the lobby
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User ID
+   * @returns {Promise<LobbyEntry | null>} The entry if the user was waiting
+   */
+  remove(meetingId: string, userId: string): Promise<LobbyEntry | null> {
+    return this.presenceStore.removeFromLobby(meetingId, userId);
+  }
+
+  /**
+   * Take a socket out of every lobby it waits in (e.g. on disconnect)
+   * @param {string} socketId - Socket ID
+   * @returns {Promise<RemovedLobbyEntry[]>} Removed entries
+   */
+  removeSocket(socketId: string): Promise<RemovedLobbyEntry[]> {
+    return this.presenceStore.removeSocketFromLobbies(socketId);
+  }
+
+  /**
+   * Admit a waiting user
+   * Only one of several concurrent admits gets the entry.
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User ID
+   * @returns {Promise<LobbyEntry | null>} The entry if the user was waiting
+   */
+  async admit(meetingId: string, userId: string): Promise<LobbyEntry | null> {
+    const entry = await this.remove(meetingId, userId);
+
+    if (entry) {
+      await this.presenceStore.setAdmitted(meetingId, userId, true);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Check if the host already admitted a user
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User ID
+   * @returns {Promise<boolean>} True if admitted
+   */
+  isAdmitted(meetingId: string, userId: string): Promise<boolean> {
+    return this.presenceStore.isAdmitted(meetingId, userId);
+  }
+
+  /**
+   * Take back a user's admission (e.g. when kicked)
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User ID
+   * @returns {Promise<void>}
+   */
+  revoke(meetingId: string, userId: string): Promise<void> {
+    return this.presenceStore.setAdmitted(meetingId, userId, false);
+  }
+
+  /**
+   * Get users waiting in a meeting's lobby, first in line first
+   * @param {string} meetingId - Meeting ID
+   * @returns {Promise<LobbyEntry[]>} Waiting users
+   */
+  getWaiting(meetingId: string): Promise<LobbyEntry[]> {
+    return this.presenceStore.getLobby(meetingId);
+  }
+
+  /**
+   * Empty a meeting's lobby
+   * @param {string} meetingId - Meeting ID
+   * @returns {Promise<LobbyEntry[]>} Users who were waiting
+   */
+  clear(meetingId: string): Promise<LobbyEntry[]> {
+    return this.presenceStore.clearLobby(meetingId);
+  }
+
+  /**
+   * Forget who was admitted (e.g. once the meeting room is empty)
+   * @param {string} meetingId - Meeting ID
+   * @returns {Promise<void>}
+   */
+  resetAdmitted(meetingId: string): Promise<void> {
+    return this.presenceStore.resetAdmitted(meetingId);
+  }
+}
+
+let lobbyService: LobbyService | null = null;
+
+/**
+ * Get the shared lobby service
+ * @returns {LobbyService} Lobby service
+ */
+export const getLobbyService = (): LobbyService => {
+  if (lobbyService) return lobbyService;
+
+  lobbyService = new LobbyService();
+  return lobbyService;
+};
@@ -0,0 +1,171 @@
+import { getPresenceStore, PresenceStore } from '../presence';
+import { Meeting, MeetingStatus, MeetingStatusChange } from '../types';
+import { getNextMeetingStatus } from '../utils/meetingStatus';
+import { logger } from '../utils/logger';
+import { ChatService } from './chatService';
+
+type StatusChangeHandler = (change: MeetingStatusChange) => void;
+
+/**
+ * Scheduler options
+ * @interface MeetingSchedulerOptions
+ */
+export interface MeetingSchedulerOptions {
+  intervalMs: number; // Time between sweeps over open meetings
+  maxOverrunMs: number; // How long a live meeting may run past its end before it is closed
+}
+
+/**
+ * Moves meetings through their lifecycle based on time and presence
+ * Each server instance sweeps on its own; status writes only apply while the
+ * stored status is unchanged, so a meeting changes status only once.
+ * @class MeetingScheduler
+ */
+export class MeetingScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private statusChangeHandler: StatusChangeHandler | null = null;
+  private readonly chatService: ChatService;
+  private readonly presenceStore: PresenceStore;
+  private readonly options: MeetingSchedulerOptions;
+
+  constructor(
+    options: MeetingSchedulerOptions,
+    chatService: ChatService = new ChatService(),
+    presenceStore: PresenceStore = getPresenceStore()
+  ) {
+    this.options = options;
+    this.chatService = chatService;
+    this.presenceStore = presenceStore;
+  }
+
+  /**
+   * Set the callback run after every status change
+   * @param {StatusChangeHandler} handler - Status change callback
+   */
+  onStatusChange(handler: StatusChangeHandler): void {
+    this.statusChangeHandler = handler;
+  }
+
+  /**
+   * Start sweeping open meetings periodically
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => logger.error('Error running meeting scheduler', error));
+    }, this.options.intervalMs);
+
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+    logger.info(`Meeting scheduler running every ${this.options.intervalMs}ms`);
+  }
+
+  /**
+   * Stop sweeping
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate every scheduled and live meeting once
+   * @returns {Promise<void>}
+   */
+  async tick(): Promise<void> {
+    const meetings = await this.chatService.getOpenMeetings();
+
+    for (const meeting of meetings) {
+      try {
+        await this.evaluateMeeting(meeting);
+      } catch (error) {
+        logger.error(`Error evaluating meeting ${meeting.meetingId}`, error);
+      }
+    }
+  }
+
+  /**
+   * Evaluate one meeting now (e.g. after someone joins or leaves)
+   * @param {string} meetingId - Meeting ID
+   * @returns {Promise<MeetingStatusChange | null>} The change made, if any
+   */
+  async evaluate(meetingId: string): Promise<MeetingStatusChange | null> {
+    const meeting = await this.chatService.getMeetingInfo(meetingId);
+    return this.evaluateMeeting(meeting);
+  }
+
+  /**
+   * Change a meeting's status on request (e.g. by the host) and notify listeners
+   * @param {string} meetingId - Meeting ID
+   * @param {MeetingStatus} status - New status
+   * @param {Partial<Meeting>} data - Other fields to write in the same update (optional)
+   * @returns {Promise<MeetingStatusChange | null>} The change made, if any
+   * @throws {Error} If the transition is not allowed or the status changed meanwhile
+   */
+  async setStatus(
+    meetingId: string,
+    status: MeetingStatus,
+    data: Partial<Meeting> = {}
+  ): Promise<MeetingStatusChange | null> {
+    const change = await this.chatService.changeMeetingStatus(meetingId, status, data);
+
+    if (change) {
+      this.notify(change);
+    }
+
+    return change;
+  }
+
+  private async evaluateMeeting(meeting: Meeting): Promise<MeetingStatusChange | null> {
+    const participants = await this.presenceStore.getParticipants(meeting.meetingId);
+    const nextStatus = getNextMeetingStatus(
+      meeting,
+      participants.length,
+      new Date(),
+      this.options.maxOverrunMs
+    );
+
+    if (!nextStatus) {
+      return null;
+    }
+
+    try {
+      return await this.setStatus(meeting.meetingId, nextStatus);
+    } catch (error) {
+      // Another instance (or a host) changed the status first
+      if ((error as Error).message === 'The status changed in the meantime') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private notify(change: MeetingStatusChange): void {
+    try {
+      this.statusChangeHandler?.(change);
+    } catch (error) {
+      logger.error(`Error handling status change for meeting ${change.meetingId}`, error);
+    }
+  }
+}
+
+let meetingScheduler: MeetingScheduler | null = null;
+
+/**
+ * Get the shared meeting scheduler
+ * MEETING_SCHEDULER_INTERVAL_MS and MEETING_MAX_OVERRUN_MINUTES tune it.
+ * @returns {MeetingScheduler} Meeting scheduler
+ */
+export const getMeetingScheduler = (): MeetingScheduler => {
+  if (meetingScheduler) return meetingScheduler;
+
+  meetingScheduler = new MeetingScheduler({
+    intervalMs: parseInt(process.env.MEETING_SCHEDULER_INTERVAL_MS || '60000', 10),
+    maxOverrunMs: parseInt(process.env.MEETING_MAX_OVERRUN_MINUTES || '60', 10) * 60 * 1000,
+  });
+
+  return meetingScheduler;
+};
@@ -0,0 +1,91 @@
+import { getPresenceStore, PresenceStore } from '../presence';
+import { logger } from '../utils/logger';
+
+type OrphanedSocketHandler = (socketId: string) => Promise<void>;
+
+// A heartbeat stays valid for this many intervals, so one late tick is not taken for a crash
+const HEARTBEAT_TTL_INTERVALS = 3;
+
+/**
+ * Sweeper options
+ * @interface PresenceSweeperOptions
+ */
+export interface PresenceSweeperOptions {
+  intervalMs: number; // Time between heartbeats (and sweeps)
+}
+
+/**
+ * Keeps this instance's presence alive and cleans up after instances that died
+ * Sockets of a crashed or redeployed instance would otherwise stay online for good,
+ * and their reconnect grace periods never end since the timers died with it.
+ * @class PresenceSweeper
+ */
+export class PresenceSweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private orphanedSocketHandler: OrphanedSocketHandler | null = null;
+  private readonly presenceStore: PresenceStore;
+  private readonly options: PresenceSweeperOptions;
+
+  constructor(options: PresenceSweeperOptions, presenceStore: PresenceStore = getPresenceStore()) {
+    this.options = options;
+    this.presenceStore = presenceStore;
+  }
+
+  /**
+   * Set the callback that removes a dead instance's socket from meetings and lobbies
+   * @param {OrphanedSocketHandler} handler - Cleanup callback
+   */
+  onOrphanedSocket(handler: OrphanedSocketHandler): void {
+    this.orphanedSocketHandler = handler;
+  }
+
+  /**
+   * Sweep right away (leftovers of a previous deploy), then periodically
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const run = (): void => {
+      this.tick().catch((error) => logger.error('Error sweeping presence', error));
+    };
+
+    run();
+    this.timer = setInterval(run, this.options.intervalMs);
+
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+    logger.info(`Presence heartbeat every ${this.options.intervalMs}ms`);
+  }
+
+  /**
+   * Stop sweeping
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send a heartbeat and remove the sockets of instances that stopped sending theirs
+   * @returns {Promise<void>}
+   */
+  async tick(): Promise<void> {
+    await this.presenceStore.heartbeat(this.options.intervalMs * HEARTBEAT_TTL_INTERVALS);
+
+    const socketIds = await this.presenceStore.claimOrphanedSockets();
+
+    if (socketIds.length > 0) {
+      logger.warn(`Removing ${socketIds.length} sockets left behind by stopped instances`);
+    }
+
+    for (const socketId of socketIds) {
+      try {
+        await this.orphanedSocketHandler?.(socketId);
+      } catch (error) {
+        logger.error(`Error removing orphaned socket ${socketId}`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { logger } from '../utils/logger';
+
+type ExpireHandler = (meetingId: string, socketId: string) => void;
+
+/**
+ * Grace periods for dropped sockets that may still resume their session
+ * Timers are kept on the instance that saw the disconnect; a socket resumed on
+ * another instance is already gone from presence when its timer fires.
+ * @class ReconnectService
+ */
+export class ReconnectService {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private expireHandler: ExpireHandler | null = null;
+  readonly graceMs: number;
+
+  /**
+   * @param {number} graceMs - How long a dropped socket keeps its slot (0 disables resuming)
+   */
+  constructor(graceMs: number) {
+    this.graceMs = graceMs;
+  }
+
+  /**
+   * Check if dropped sockets get a grace period at all
+   * @returns {boolean} True if enabled
+   */
+  isEnabled(): boolean {
+    return this.graceMs > 0;
+  }
+
+  /**
+   * Set the callback run when a grace period ends without a resume
+   * @param {ExpireHandler} handler - Expiry callback
+   */
+  onExpire(handler: ExpireHandler): void {
+    this.expireHandler = handler;
+  }
+
+  /**
+   * Start a dropped socket's grace period
+   * @param {string} meetingId - Meeting ID
+   * @param {string} socketId - Dropped socket ID
+   */
+  hold(meetingId: string, socketId: string): void {
+    const key = `${meetingId}:${socketId}`;
+
+    this.release(meetingId, socketId);
+    this.timers.set(key, setTimeout(() => this.expire(meetingId, socketId), this.graceMs));
+  }
+
+  /**
+   * Cancel a grace period (the socket was resumed)
+   * @param {string} meetingId - Meeting ID
+   * @param {string} socketId - Dropped socket ID
+   * @returns {boolean} True if a grace period was running here
+   */
+  release(meetingId: string, socketId: string): boolean {
+    const key = `${meetingId}:${socketId}`;
+    const timer = this.timers.get(key);
+
+    if (!timer) {
+      return false;
+    }
+
+    clearTimeout(timer);
+    this.timers.delete(key);
+    return true;
+  }
+
+  /**
+   * End a grace period and notify the expiry handler
+   * @param {string} meetingId - Meeting ID
+   * @param {string} socketId - Dropped socket ID
+   */
+  private expire(meetingId: string, socketId: string): void {
+    this.timers.delete(`${meetingId}:${socketId}`);
+
+    try {
+      this.expireHandler?.(meetingId, socketId);
+    } catch (error) {
+      logger.error('Error handling reconnect expiry', error);
+    }
+  }
+}
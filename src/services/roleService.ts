@@ -0,0 +1,141 @@
+import { HostChange, Meeting, MeetingRole, MeetingRoleChange, OnlineUser } from '../types';
+import { getMeetingRole } from '../utils/permissions';
+import { logger } from '../utils/logger';
+import { ChatService } from './chatService';
+
+type RoleChangeHandler = (change: MeetingRoleChange) => void;
+type HostChangeHandler = (change: HostChange) => void;
+
+/**
+ * Changes meeting roles and notifies listeners (REST and socket changes alike)
+ * @class RoleService
+ */
+export class RoleService {
+  private roleChangeHandler: RoleChangeHandler | null = null;
+  private hostChangeHandler: HostChangeHandler | null = null;
+  private readonly chatService: ChatService;
+
+  constructor(chatService: ChatService = new ChatService()) {
+    this.chatService = chatService;
+  }
+
+  /**
+   * Set the callback run after every role change
+   * @param {RoleChangeHandler} handler - Role change callback
+   */
+  onRoleChange(handler: RoleChangeHandler): void {
+    this.roleChangeHandler = handler;
+  }
+
+  /**
+   * Set the callback run after every host change
+   * @param {HostChangeHandler} handler - Host change callback
+   */
+  onHostChange(handler: HostChangeHandler): void {
+    this.hostChangeHandler = handler;
+  }
+
+  /**
+   * Promote or demote a participant
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User whose role changes
+   * @param {MeetingRole} role - New role (not host)
+   * @param {string} byUserId - User making the change
+   * @returns {Promise<MeetingRoleChange | null>} The change made, if any
+   * @throws {Error} If the user is the host or not a participant
+   */
+  async setRole(
+    meetingId: string,
+    userId: string,
+    role: MeetingRole,
+    byUserId: string
+  ): Promise<MeetingRoleChange | null> {
+    const change = await this.chatService.setMeetingRole(meetingId, userId, role, byUserId);
+
+    if (change) {
+      this.notify(() => this.roleChangeHandler?.(change), meetingId);
+    }
+
+    return change;
+  }
+
+  /**
+   * Hand the meeting over to another participant
+   * @param {string} meetingId - Meeting ID
+   * @param {string} newHostId - New host user ID
+   * @param {HostChange['reason']} reason - Why the host changes
+   * @returns {Promise<HostChange | null>} The change made, if any
+   * @throws {Error} If the user is not a participant or the host changed meanwhile
+   */
+  async transferHost(
+    meetingId: string,
+    newHostId: string,
+    reason: HostChange['reason'] = 'transfer'
+  ): Promise<HostChange | null> {
+    const change = await this.chatService.changeHost(meetingId, newHostId, reason);
+
+    if (change) {
+      this.notify(() => this.hostChangeHandler?.(change), meetingId);
+    }
+
+    return change;
+  }
+
+  /**
+   * Pick a new host after the host left a live meeting
+   * Co-hosts come first, then participants, longest in the room first.
+   * Viewers never take over.
+   * @param {Meeting} meeting - Meeting the host left
+   * @param {OnlineUser[]} onlineUsers - Users still in the room
+   * @returns {Promise<HostChange | null>} The change made, if any
+   */
+  async handOff(meeting: Meeting, onlineUsers: OnlineUser[]): Promise<HostChange | null> {
+    if (meeting.status !== 'live') {
+      return null;
+    }
+
+    const candidates = onlineUsers
+      .filter((user) => user.userId !== meeting.hostId)
+      .map((user) => ({ user, role: getMeetingRole(meeting, user.userId) }))
+      .filter(({ role }) => role === 'co-host' || role === 'participant')
+      .sort((a, b) => {
+        if (a.role !== b.role) {
+          return a.role === 'co-host' ? -1 : 1;
+        }
+        return a.user.joinedAt.localeCompare(b.user.joinedAt);
+      });
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    try {
+      return await this.transferHost(meeting.meetingId, candidates[0].user.userId, 'handoff');
+    } catch (error) {
+      // Another instance handed off first, or the user left the participants list
+      logger.warn(`Could not hand off host of meeting ${meeting.meetingId}`, error);
+      return null;
+    }
+  }
+
+  private notify(handler: () => void, meetingId: string): void {
+    try {
+      handler();
+    } catch (error) {
+      logger.error(`Error handling role change for meeting ${meetingId}`, error);
+    }
+  }
+}
+
+let roleService: RoleService | null = null;
+
+/**
+ * Get the shared role service
+ * @returns {RoleService} Role service
+ */
+export const getRoleService = (): RoleService => {
+  if (roleService) return roleService;
+
+  roleService = new RoleService();
+  return roleService;
+};
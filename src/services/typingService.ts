@@ -0,0 +1,132 @@
+import { logger } from '../utils/logger';
+
+/**
+ * User currently typing in a meeting
+ * @interface TypingUser
+ */
+export interface TypingUser {
+  userId: string;
+  username?: string;
+}
+
+/**
+ * Result of a typing start event
+ */
+export type TypingStartResult = 'started' | 'refreshed' | 'throttled';
+
+type ExpireHandler = (meetingId: string, user: TypingUser) => void;
+
+interface TypingEntry {
+  user: TypingUser;
+  timer: NodeJS.Timeout;
+  lastStartAt: number;
+}
+
+/**
+ * Typing indicator state per meeting, with automatic expiry
+ * State is kept per server instance; each user's socket lives on one instance.
+ * @class TypingService
+ */
+export class TypingService {
+  private meetings = new Map<string, Map<string, TypingEntry>>();
+  private expireHandler: ExpireHandler | null = null;
+  private readonly timeoutMs: number;
+  private readonly throttleMs: number;
+
+  /**
+   * @param {number} timeoutMs - Time without a new start event before typing stops
+   * @param {number} throttleMs - Start events closer than this are ignored
+   */
+  constructor(timeoutMs: number, throttleMs: number) {
+    this.timeoutMs = timeoutMs;
+    this.throttleMs = throttleMs;
+  }
+
+  /**
+   * Set the callback run when a user stops typing because of the timeout
+   * @param {ExpireHandler} handler - Expiry callback
+   */
+  onExpire(handler: ExpireHandler): void {
+    this.expireHandler = handler;
+  }
+
+  /**
+   * Mark a user as typing and (re)start their timeout
+   * @param {string} meetingId - Meeting ID
+   * @param {TypingUser} user - Typing user
+   * @returns {TypingStartResult} 'started' if the user was not typing before
+   */
+  start(meetingId: string, user: TypingUser): TypingStartResult {
+    const now = Date.now();
+    const typing = this.meetings.get(meetingId) || new Map<string, TypingEntry>();
+    const existing = typing.get(user.userId);
+
+    if (existing && now - existing.lastStartAt < this.throttleMs) {
+      return 'throttled';
+    }
+
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    typing.set(user.userId, {
+      user,
+      timer: setTimeout(() => this.expire(meetingId, user.userId), this.timeoutMs),
+      lastStartAt: now,
+    });
+    this.meetings.set(meetingId, typing);
+
+    return existing ? 'refreshed' : 'started';
+  }
+
+  /**
+   * Mark a user as no longer typing
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User ID
+   * @returns {TypingUser | null} The user if they were typing
+   */
+  stop(meetingId: string, userId: string): TypingUser | null {
+    const typing = this.meetings.get(meetingId);
+    const entry = typing?.get(userId);
+
+    if (!typing || !entry) {
+      return null;
+    }
+
+    clearTimeout(entry.timer);
+    typing.delete(userId);
+
+    if (typing.size === 0) {
+      this.meetings.delete(meetingId);
+    }
+
+    return entry.user;
+  }
+
+  /**
+   * Get users currently typing in a meeting
+   * @param {string} meetingId - Meeting ID
+   * @returns {TypingUser[]} Typing users
+   */
+  getTypingUsers(meetingId: string): TypingUser[] {
+    const typing = this.meetings.get(meetingId);
+    return typing ? Array.from(typing.values()).map((entry) => entry.user) : [];
+  }
+
+  /**
+   * Stop a user's typing after the timeout and notify the expiry handler
+   * @param {string} meetingId - Meeting ID
+   * @param {string} userId - User ID
+   */
+  private expire(meetingId: string, userId: string): void {
+    const user = this.stop(meetingId, userId);
+
+    if (user && this.expireHandler) {
+      try {
+        this.expireHandler(meetingId, user);
+      } catch (error) {
+        logger.error('Error handling typing expiry', error);
+      }
+    }
+  }
+}
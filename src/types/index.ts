@@ -5,14 +5,27 @@
 
 /**
  * User information in a chat room
+ * A user counts once however many devices they are connected from.
  * @interface OnlineUser
  */
 export interface OnlineUser {
-  socketId: string;
+  socketIds: string[]; // Every socket the user has in the meeting, oldest first
   userId: string;
   meetingId: string;
   username?: string;
   joinedAt: string;
+  reconnectingSince?: string; // Set while the user's only socket dropped and may resume
+}
+
+/**
+ * User waiting in a meeting's lobby
+ * @interface LobbyEntry
+ */
+export interface LobbyEntry {
+  socketId: string;
+  userId: string;
+  username?: string;
+  requestedAt: string;
 }
 
 /**
@@ -26,6 +39,148 @@ export interface ChatMessage {
   username?: string;
   message: string;
   timestamp: string;
+  editedAt?: string; // Set when the author or host edits the message
+  deleted?: boolean; // Tombstone: the text is cleared but the message keeps its place
+  deletedAt?: string;
+  replyToMessageId?: string; // Message this one replies to (same meeting)
+  threadId?: string; // messageId of the thread's first message, set on replies
+  quote?: MessageQuote; // Snippet of the message being replied to
+  reactions?: Record<string, string[]>; // Emoji → IDs of users who reacted with it
+}
+
+/**
+ * Chat message as returned to clients, with reactions counted per emoji
+ * @interface ChatMessageView
+ */
+export interface ChatMessageView extends Omit<ChatMessage, 'reactions'> {
+  reactions: ReactionSummary[];
+}
+
+/**
+ * Private message between two participants of a meeting (never stored)
+ * @interface PrivateMessage
+ */
+export interface PrivateMessage {
+  messageId: string;
+  meetingId: string;
+  userId: string;
+  username?: string;
+  toUserId: string;
+  toUsername?: string;
+  message: string;
+  timestamp: string;
+}
+
+/**
+ * Private message payload
+ * @interface PrivateMessagePayload
+ */
+export interface PrivateMessagePayload {
+  meetingId: string;
+  targetUserId: string;
+  message: string;
+}
+
+/**
+ * Last message a user has seen in a meeting
+ * @interface ReadCursor
+ */
+export interface ReadCursor {
+  userId: string;
+  messageId: string;
+  timestamp: string; // Timestamp of the message, used to count unread messages
+  readAt: string;
+}
+
+/**
+ * Read receipt payload
+ * @interface ReadPayload
+ */
+export interface ReadPayload {
+  meetingId: string;
+  messageId: string;
+}
+
+/**
+ * Unread message count for one meeting
+ * @interface UnreadCount
+ */
+export interface UnreadCount {
+  meetingId: string;
+  title?: string;
+  unread: number;
+  lastReadMessageId?: string;
+}
+
+/**
+ * Aggregated reactions for one emoji on a message
+ * @interface ReactionSummary
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+/**
+ * Reaction payload
+ * @interface ReactionPayload
+ */
+export interface ReactionPayload {
+  meetingId: string;
+  messageId: string;
+  emoji: string;
+}
+
+/**
+ * Quoted snippet of the message being replied to
+ * @interface MessageQuote
+ */
+export interface MessageQuote {
+  messageId: string;
+  userId: string;
+  username?: string;
+  snippet: string; // Cleared when the quoted message is deleted
+  deleted?: boolean; // The quoted message was deleted
+}
+
+/**
+ * Thread: the first message and its replies, oldest first
+ * @interface MessageThread
+ */
+export interface MessageThread {
+  root: ChatMessageView;
+  replies: ChatMessageView[];
+}
+
+/**
+ * Chat history query options (cursor-based pagination)
+ * @interface MessageHistoryQuery
+ */
+export interface MessageHistoryQuery {
+  before?: string; // Return messages older than this messageId
+  after?: string; // Return messages newer than this messageId
+  limit?: number;
+}
+
+/**
+ * Page of chat history, always sorted oldest first
+ * Repositories return stored messages, the chat service returns ChatMessageView.
+ * @interface MessageHistoryPage
+ */
+export interface MessageHistoryPage<T = ChatMessage> {
+  messages: T[];
+  hasMore: boolean;
+}
+
+/**
+ * Edit or delete message payload
+ * @interface MessageUpdatePayload
+ */
+export interface MessageUpdatePayload {
+  meetingId: string;
+  messageId: string;
+  message?: string; // New text, chat:edit only
 }
 
 /**
@@ -55,24 +210,111 @@ export enum SocketEvents {
   ERROR = 'error',
   TYPING_START = 'typing:start',
   TYPING_STOP = 'typing:stop',
+  TYPING_USERS = 'typing:users',
+  MEETING_STATUS = 'meeting:status',
+  CHAT_HISTORY = 'chat:history',
+  CHAT_EDIT = 'chat:edit',
+  CHAT_DELETE = 'chat:delete',
+  CHAT_REACT = 'chat:react',
+  CHAT_UNREACT = 'chat:unreact',
+  CHAT_REACTIONS = 'chat:reactions',
+  CHAT_PRIVATE = 'chat:private',
+  CHAT_READ = 'chat:read',
+  MODERATION_KICK = 'moderation:kick',
+  MODERATION_MUTE = 'moderation:mute',
+  MODERATION_BAN = 'moderation:ban',
+  MODERATION_KICKED = 'moderation:kicked',
+  MODERATION_MUTED = 'moderation:muted',
+  MODERATION_BANNED = 'moderation:banned',
+  MODERATION_ACTION = 'moderation:action',
+  LOBBY_ADMIT = 'lobby:admit',
+  LOBBY_DENY = 'lobby:deny',
+  LOBBY_LEAVE = 'lobby:leave',
+  LOBBY_REQUEST = 'lobby:request',
+  LOBBY_CANCELLED = 'lobby:cancelled',
+  LOBBY_WAITING = 'lobby:waiting',
+  LOBBY_ADMITTED = 'lobby:admitted',
+  LOBBY_DENIED = 'lobby:denied',
+  LOBBY_CLOSED = 'lobby:closed',
+  ROLE_SET = 'role:set',
+  ROLE_CHANGED = 'role:changed',
+  HOST_TRANSFER = 'host:transfer',
+  HOST_CHANGED = 'host:changed',
+  SESSION_TOKEN = 'session:token',
+  SESSION_RESUME = 'session:resume',
+  SESSION_RESUMED = 'session:resumed',
+  CHAT_REPLAY = 'chat:replay',
 }
 
 /**
  * Join meeting payload
+ * userId is ignored; the identity bound during the handshake is used instead
  * @interface JoinMeetingPayload
  */
 export interface JoinMeetingPayload {
   meetingId: string;
-  userId: string;
+  userId?: string;
   username?: string;
+  passcode?: string; // Passcode meetings only
 }
 
 /**
  * Typing indicator payload
+ * userId and username are ignored; the identity bound during the handshake is used instead
  * @interface TypingPayload
  */
 export interface TypingPayload {
   meetingId: string;
+  userId?: string;
+  username?: string;
+}
+
+/**
+ * Host moderation payload (kick, mute, ban)
+ * @interface ModerationPayload
+ */
+export interface ModerationPayload {
+  meetingId: string;
+  targetUserId: string;
+  reason?: string;
+  muted?: boolean; // moderation:mute only, false to unmute (default true)
+}
+
+/**
+ * Host lobby decision payload (admit, deny); lobby:leave only needs meetingId
+ * @interface LobbyPayload
+ */
+export interface LobbyPayload {
+  meetingId: string;
+  targetUserId?: string;
+  reason?: string; // lobby:deny only
+}
+
+/**
+ * Session resume payload, sent after reconnecting instead of join:meeting
+ * @interface ResumePayload
+ */
+export interface ResumePayload {
+  meetingId: string;
+  resumeToken: string; // From the last session:token event
+  lastMessageId?: string; // Last chat message the client received (replay starts after it)
+}
+
+/**
+ * Role change payload (role:set, host:transfer)
+ * @interface RolePayload
+ */
+export interface RolePayload {
+  meetingId: string;
+  targetUserId: string;
+  role?: MeetingRole; // role:set only
+}
+
+/**
+ * Verified identity bound to a socket during the handshake
+ * @interface SocketUser
+ */
+export interface SocketUser {
   userId: string;
   username?: string;
 }
@@ -87,6 +329,12 @@ export interface ErrorResponse {
   statusCode: number;
 }
 
+/**
+ * Meeting lifecycle status
+ * scheduled → live → completed, or cancelled. 'active' is the legacy name of 'scheduled'.
+ */
+export type MeetingStatus = 'scheduled' | 'live' | 'completed' | 'cancelled' | 'active';
+
 /**
  * Meeting data interface
  * @interface Meeting
@@ -96,15 +344,152 @@ export interface Meeting {
   hostId: string;
   title: string;
   description: string;
-  date: string; // Format: YYYY-MM-DD
-  time: string; // Format: HH:mm
+  date: string; // Format: YYYY-MM-DD (in the meeting's timezone)
+  time: string; // Format: HH:mm (in the meeting's timezone)
+  timezone?: string; // IANA timezone, e.g. "America/Bogota" (DEFAULT_TIMEZONE if missing)
+  startsAt?: string; // Absolute start instant (ISO 8601, UTC)
   estimatedDuration: number; // Duration in minutes
   maxParticipants: number;
   participants: string[]; // Array of user IDs who have joined
+  bannedUsers?: string[]; // User IDs the host banned from joining
+  visibility?: MeetingVisibility; // Who may join (default 'open')
+  invitedUsers?: string[]; // invite-only: user IDs the host invited
+  passcodeHash?: string; // passcode: scrypt hash, never sent to clients
+  lobbyEnabled?: boolean; // Hold joiners in a waiting room until the host admits them
+  roles?: Record<string, MeetingRole>; // Co-hosts and viewers by user ID (others are participants)
   activeParticipants: number; // Currently online participants
   createdAt: string;
   updatedAt: string;
-  status: 'active' | 'completed' | 'cancelled';
+  status: MeetingStatus;
+  startedAt?: string; // Set when the meeting goes live
+  endedAt?: string; // Set when the meeting is completed or cancelled
+  seriesId?: string; // Shared by every occurrence of a recurring meeting
+  occurrenceIndex?: number; // Position in the series (0-based)
+  recurrence?: RecurrenceRule; // Rule the series was generated from
+}
+
+/**
+ * Invite link issued by a meeting host (the signed token itself is not stored)
+ * @interface InviteLink
+ */
+export interface InviteLink {
+  tokenId: string;
+  meetingId: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  maxUses: number | null; // null for unlimited
+  uses: number;
+  redeemedBy: string[]; // A user redeeming again doesn't use up the link
+  revoked: boolean;
+  revokedAt?: string;
+}
+
+/**
+ * Outcome of redeeming an invite link
+ */
+export type InviteRedeemStatus = 'redeemed' | 'already-redeemed' | 'revoked' | 'exhausted' | 'not-found';
+
+/**
+ * Who may join a meeting
+ * - open: anyone with the meeting ID
+ * - invite-only: the host and invited users
+ * - passcode: anyone with the passcode
+ */
+export type MeetingVisibility = 'open' | 'invite-only' | 'passcode';
+
+/**
+ * What a user may do in a meeting
+ * - host: everything, one per meeting (Meeting.hostId)
+ * - co-host: manage the meeting, moderate and admit, but not delete it or change roles
+ * - participant: chat (default for everyone who joins)
+ * - viewer: read and react only
+ */
+export type MeetingRole = 'host' | 'co-host' | 'participant' | 'viewer';
+
+/**
+ * How often a recurring meeting repeats
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Recurrence rule for a meeting series
+ * Needs `until` or `count` so the series has an end.
+ * @interface RecurrenceRule
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number; // Every N days/weeks/months (default 1)
+  weekdays?: number[]; // weekly only: 0 (Sunday) to 6 (Saturday), default the start date's weekday
+  until?: string; // Last possible date, YYYY-MM-DD (inclusive)
+  count?: number; // Number of occurrences
+}
+
+/**
+ * Which occurrences a series update or delete applies to
+ */
+export type SeriesScope = 'occurrence' | 'series';
+
+/**
+ * Reasons a user cannot join a meeting (sent as the error code)
+ */
+export type JoinRejectionCode =
+  | 'MEETING_NOT_FOUND'
+  | 'MEETING_CANCELLED'
+  | 'MEETING_COMPLETED'
+  | 'MEETING_NOT_STARTED'
+  | 'MEETING_FULL'
+  | 'USER_BANNED'
+  | 'NOT_INVITED'
+  | 'PASSCODE_REQUIRED'
+  | 'INVALID_PASSCODE';
+
+/**
+ * Why a join was refused
+ * @interface JoinRejection
+ */
+export interface JoinRejection {
+  code: JoinRejectionCode;
+  message: string;
+  statusCode: number; // HTTP status for the REST API
+  opensAt?: string; // MEETING_NOT_STARTED only: when joining opens
+}
+
+/**
+ * Meeting status change broadcast to the meeting room
+ * @interface MeetingStatusChange
+ */
+export interface MeetingStatusChange {
+  meetingId: string;
+  status: MeetingStatus;
+  previousStatus: MeetingStatus;
+  timestamp: string;
+}
+
+/**
+ * Role change broadcast to the meeting room
+ * @interface MeetingRoleChange
+ */
+export interface MeetingRoleChange {
+  meetingId: string;
+  userId: string;
+  role: MeetingRole;
+  previousRole: MeetingRole;
+  byUserId: string;
+  timestamp: string;
+}
+
+/**
+ * Host change broadcast to the meeting room
+ * The previous host stays on as a co-host.
+ * @interface HostChange
+ */
+export interface HostChange {
+  meetingId: string;
+  hostId: string;
+  previousHostId: string;
+  reason: 'transfer' | 'handoff'; // handoff: the host left a live meeting
+  timestamp: string;
 }
 
 /**
@@ -117,8 +502,14 @@ export interface CreateMeetingRequest {
   description?: string;
   date: string;
   time: string;
+  timezone?: string;
   estimatedDuration?: number;
   maxParticipants?: number;
+  recurrence?: RecurrenceRule;
+  visibility?: MeetingVisibility;
+  passcode?: string; // Required when visibility is 'passcode'
+  invitedUsers?: string[];
+  lobbyEnabled?: boolean;
 }
 
 /**
@@ -131,9 +522,14 @@ export interface UpdateMeetingRequest {
   description?: string;
   date?: string;
   time?: string;
+  timezone?: string;
   estimatedDuration?: number;
   maxParticipants?: number;
-  status?: 'active' | 'completed' | 'cancelled';
+  status?: MeetingStatus;
+  visibility?: MeetingVisibility;
+  passcode?: string;
+  lobbyEnabled?: boolean;
+  scope?: SeriesScope; // Recurring meetings only (default 'occurrence')
 }
 
 /**
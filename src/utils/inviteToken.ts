@@ -0,0 +1,55 @@
+/**
+ * Signed invite link tokens (see utils/signedToken for the format)
+ * @module utils/inviteToken
+ */
+
+import { randomBytes } from 'crypto';
+import { readSignedToken, signToken } from './signedToken';
+
+/**
+ * Data carried by an invite token
+ * @interface InviteTokenPayload
+ */
+export interface InviteTokenPayload {
+  tid: string; // Token ID (the stored InviteLink)
+  mid: string; // Meeting ID
+  exp: number; // Expiry, Unix time in milliseconds
+}
+
+const SECRET_ENV = 'INVITE_TOKEN_SECRET';
+
+/**
+ * Generate a random token ID
+ * @returns {string} Token ID
+ */
+export const generateInviteTokenId = (): string => randomBytes(12).toString('base64url');
+
+/**
+ * Create a signed invite token
+ * @param {InviteTokenPayload} payload - Token data
+ * @returns {string} Token
+ */
+export const signInviteToken = (payload: InviteTokenPayload): string => {
+  return signToken(payload, SECRET_ENV);
+};
+
+/**
+ * Check an invite token's signature and read its payload
+ * Expiry is not checked here so callers can tell expired tokens apart.
+ * @param {string} token - Token
+ * @returns {InviteTokenPayload | null} Payload, or null if the token is malformed or forged
+ */
+export const verifyInviteToken = (token: string): InviteTokenPayload | null => {
+  const payload = readSignedToken(token, SECRET_ENV);
+
+  if (
+    !payload ||
+    typeof payload.tid !== 'string' ||
+    typeof payload.mid !== 'string' ||
+    typeof payload.exp !== 'number'
+  ) {
+    return null;
+  }
+
+  return { tid: payload.tid, mid: payload.mid, exp: payload.exp };
+};
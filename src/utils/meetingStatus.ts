@@ -0,0 +1,196 @@
+/**
+ * Meeting lifecycle rules
+ * @module utils/meetingStatus
+ */
+
+import { JoinRejection, Meeting, MeetingStatus } from '../types';
+import { verifyPasscode } from './passcode';
+import { hasPermission } from './permissions';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from './timezone';
+
+// Allowed status changes (completed and cancelled are final)
+const TRANSITIONS: Record<MeetingStatus, MeetingStatus[]> = {
+  scheduled: ['live', 'completed', 'cancelled'],
+  active: ['live', 'completed', 'cancelled'],
+  live: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export const MEETING_STATUSES: MeetingStatus[] = ['scheduled', 'live', 'completed', 'cancelled'];
+
+// Statuses the scheduler still has to look at
+export const OPEN_MEETING_STATUSES: MeetingStatus[] = ['scheduled', 'active', 'live'];
+
+/**
+ * Map legacy statuses to current ones
+ * @param {MeetingStatus} status - Stored status
+ * @returns {MeetingStatus} Current status name
+ */
+export const normalizeMeetingStatus = (status: MeetingStatus | undefined): MeetingStatus => {
+  return !status || status === 'active' ? 'scheduled' : status;
+};
+
+/**
+ * Check if a status change is allowed
+ * @param {MeetingStatus} from - Current status
+ * @param {MeetingStatus} to - New status
+ * @returns {boolean} True if allowed
+ */
+export const canTransition = (from: MeetingStatus | undefined, to: MeetingStatus): boolean => {
+  return TRANSITIONS[normalizeMeetingStatus(from)].includes(normalizeMeetingStatus(to));
+};
+
+type ScheduledMeeting = Pick<Meeting, 'date' | 'time' | 'timezone' | 'startsAt'>;
+
+/**
+ * Get the instant a meeting starts
+ * Meetings saved before startsAt existed are read in their timezone (or DEFAULT_TIMEZONE).
+ * @param {ScheduledMeeting} meeting - Meeting
+ * @returns {Date} Start time
+ */
+export const getMeetingStartTime = (meeting: ScheduledMeeting): Date => {
+  if (meeting.startsAt) {
+    return new Date(meeting.startsAt);
+  }
+
+  return zonedTimeToUtc(meeting.date, meeting.time, meeting.timezone || DEFAULT_TIMEZONE);
+};
+
+/**
+ * Get the instant a meeting is expected to end
+ * @param {ScheduledMeeting & Pick<Meeting, 'estimatedDuration'>} meeting - Meeting
+ * @returns {Date} End time
+ */
+export const getMeetingEndTime = (
+  meeting: ScheduledMeeting & Pick<Meeting, 'estimatedDuration'>
+): Date => {
+  const durationMs = (meeting.estimatedDuration || 60) * 60 * 1000;
+  return new Date(getMeetingStartTime(meeting).getTime() + durationMs);
+};
+
+/**
+ * Decide the status a meeting should move to, based on time and presence
+ * - scheduled → live: it has started and someone is online
+ * - scheduled → completed: it ended and nobody ever joined
+ * - live → completed: it ended and the room is empty, or it overran too long
+ * @param {Meeting} meeting - Meeting
+ * @param {number} onlineCount - Users currently online in the meeting
+ * @param {Date} now - Current time
+ * @param {number} maxOverrunMs - How long a live meeting may run past its end
+ * @returns {MeetingStatus | null} New status, or null if it should not change
+ */
+export const getNextMeetingStatus = (
+  meeting: Meeting,
+  onlineCount: number,
+  now: Date,
+  maxOverrunMs: number
+): MeetingStatus | null => {
+  const status = normalizeMeetingStatus(meeting.status);
+  const start = getMeetingStartTime(meeting).getTime();
+  const end = getMeetingEndTime(meeting).getTime();
+
+  if (isNaN(start)) {
+    return null;
+  }
+
+  if (status === 'scheduled') {
+    if (onlineCount > 0 && now.getTime() >= start) return 'live';
+    if (onlineCount === 0 && now.getTime() >= end) return 'completed';
+  }
+
+  if (status === 'live') {
+    if (onlineCount === 0 && now.getTime() >= end) return 'completed';
+    if (now.getTime() >= end + maxOverrunMs) return 'completed';
+  }
+
+  return null;
+};
+
+/**
+ * Check the meeting's visibility rules for a user
+ * The host and co-hosts always have access. In passcode meetings, users who already joined
+ * once (listed in participants) may rejoin without the passcode.
+ * @param {Meeting} meeting - Meeting
+ * @param {string} userId - Joining user
+ * @param {string} passcode - Passcode given by the user (optional)
+ * @returns {JoinRejection | null} Why access is refused, or null if allowed
+ */
+const getAccessRejection = (
+  meeting: Meeting,
+  userId: string,
+  passcode?: string
+): JoinRejection | null => {
+  if (hasPermission(meeting, userId, 'skip-visibility')) {
+    return null;
+  }
+
+  if (meeting.visibility === 'invite-only' && !meeting.invitedUsers?.includes(userId)) {
+    return { code: 'NOT_INVITED', message: 'This meeting is invite-only', statusCode: 403 };
+  }
+
+  if (meeting.visibility === 'passcode' && !meeting.participants?.includes(userId)) {
+    if (!passcode) {
+      return { code: 'PASSCODE_REQUIRED', message: 'This meeting requires a passcode', statusCode: 403 };
+    }
+
+    if (!meeting.passcodeHash || !verifyPasscode(String(passcode), meeting.passcodeHash)) {
+      return { code: 'INVALID_PASSCODE', message: 'Invalid meeting passcode', statusCode: 403 };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check whether a user may join a meeting right now
+ * Used by both the socket join and the REST join so they agree.
+ * @param {Meeting} meeting - Meeting
+ * @param {string} userId - Joining user
+ * @param {Date} now - Current time
+ * @param {number} earlyJoinMs - How long before the start time joining opens
+ * @param {string} passcode - Passcode given by the user (optional)
+ * @returns {JoinRejection | null} Why the join is refused, or null if allowed
+ */
+export const getJoinRejection = (
+  meeting: Meeting,
+  userId: string,
+  now: Date,
+  earlyJoinMs: number,
+  passcode?: string
+): JoinRejection | null => {
+  if (meeting.bannedUsers?.includes(userId)) {
+    return { code: 'USER_BANNED', message: 'You have been banned from this meeting', statusCode: 403 };
+  }
+
+  const accessRejection = getAccessRejection(meeting, userId, passcode);
+  if (accessRejection) {
+    return accessRejection;
+  }
+
+  const status = normalizeMeetingStatus(meeting.status);
+
+  if (status === 'cancelled') {
+    return { code: 'MEETING_CANCELLED', message: 'Meeting has been cancelled', statusCode: 409 };
+  }
+
+  if (status === 'completed') {
+    return { code: 'MEETING_COMPLETED', message: 'Meeting has already ended', statusCode: 409 };
+  }
+
+  // A live meeting is open whatever its schedule says
+  if (status === 'scheduled') {
+    const opensAt = getMeetingStartTime(meeting).getTime() - earlyJoinMs;
+
+    if (now.getTime() < opensAt) {
+      return {
+        code: 'MEETING_NOT_STARTED',
+        message: 'Meeting has not started yet',
+        statusCode: 403,
+        opensAt: new Date(opensAt).toISOString(),
+      };
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,40 @@
+/**
+ * Meeting passcode hashing
+ * @module utils/passcode
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Hash a passcode for storage
+ * @param {string} passcode - Plain passcode
+ * @returns {string} "scrypt$<salt hex>$<hash hex>"
+ */
+export const hashPasscode = (passcode: string): string => {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = scryptSync(passcode, salt, KEY_LENGTH);
+
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+/**
+ * Check a passcode against a stored hash
+ * @param {string} passcode - Plain passcode
+ * @param {string} storedHash - Value from hashPasscode
+ * @returns {boolean} True if the passcode matches
+ */
+export const verifyPasscode = (passcode: string, storedHash: string): boolean => {
+  const [scheme, saltHex, hashHex] = storedHash.split('$');
+
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = scryptSync(passcode, Buffer.from(saltHex, 'hex'), expected.length);
+
+  return timingSafeEqual(actual, expected);
+};
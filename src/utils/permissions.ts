@@ -0,0 +1,80 @@
+/**
+ * Meeting roles and what each one may do
+ * @module utils/permissions
+ */
+
+import { Meeting, MeetingRole } from '../types';
+
+/**
+ * Something a user may or may not do in a meeting
+ */
+export type MeetingAction =
+  | 'update' // Edit details, schedule and join settings
+  | 'delete'
+  | 'moderate' // Kick, mute, ban, change other users' messages
+  | 'admit' // Let users in from the lobby
+  | 'manage-invites' // Invited users and invite links
+  | 'manage-roles' // Promote, demote and transfer host
+  | 'skip-visibility' // Join without an invitation or passcode
+  | 'chat'; // Send and edit messages
+
+export const MEETING_ROLES: MeetingRole[] = ['host', 'co-host', 'participant', 'viewer'];
+
+// Roles set with role:set or PUT /roles (host changes through a transfer)
+export const ASSIGNABLE_ROLES: MeetingRole[] = ['co-host', 'participant', 'viewer'];
+
+const ROLE_PERMISSIONS: Record<MeetingRole, MeetingAction[]> = {
+  host: ['update', 'delete', 'moderate', 'admit', 'manage-invites', 'manage-roles', 'skip-visibility', 'chat'],
+  'co-host': ['update', 'moderate', 'admit', 'manage-invites', 'skip-visibility', 'chat'],
+  participant: ['chat'],
+  viewer: [],
+};
+
+// Higher roles can moderate lower ones
+const ROLE_RANKS: Record<MeetingRole, number> = {
+  host: 3,
+  'co-host': 2,
+  participant: 1,
+  viewer: 0,
+};
+
+/**
+ * Get a user's role in a meeting
+ * @param {Meeting} meeting - Meeting
+ * @param {string} userId - User ID
+ * @returns {MeetingRole} Role (participant unless set otherwise)
+ */
+export const getMeetingRole = (meeting: Meeting, userId: string): MeetingRole => {
+  if (meeting.hostId === userId) {
+    return 'host';
+  }
+
+  // Own keys only, so IDs like "constructor" don't read the prototype; unknown values and
+  // a stored "host" (the host is hostId) count as participant
+  const roles = meeting.roles || {};
+  const role = Object.prototype.hasOwnProperty.call(roles, userId) ? roles[userId] : undefined;
+
+  return role && role !== 'host' && MEETING_ROLES.includes(role) ? role : 'participant';
+};
+
+/**
+ * Check if a user's role allows an action
+ * @param {Meeting} meeting - Meeting
+ * @param {string} userId - User ID
+ * @param {MeetingAction} action - Action
+ * @returns {boolean} True if allowed
+ */
+export const hasPermission = (meeting: Meeting, userId: string, action: MeetingAction): boolean => {
+  return ROLE_PERMISSIONS[getMeetingRole(meeting, userId)].includes(action);
+};
+
+/**
+ * Check if a user's role is above another user's
+ * @param {Meeting} meeting - Meeting
+ * @param {string} userId - Acting user ID
+ * @param {string} targetUserId - Target user ID
+ * @returns {boolean} True if the acting user ranks higher
+ */
+export const outranks = (meeting: Meeting, userId: string, targetUserId: string): boolean => {
+  return ROLE_RANKS[getMeetingRole(meeting, userId)] > ROLE_RANKS[getMeetingRole(meeting, targetUserId)];
+};
@@ -0,0 +1,44 @@
+/**
+ * Meeting data as returned to API callers
+ * @module utils/publicMeeting
+ */
+
+import { Meeting } from '../types';
+
+/**
+ * Meeting without its passcode hash, as seen by the User Backend
+ */
+export type PublicMeeting = Omit<Meeting, 'passcodeHash'> & { hasPasscode: boolean };
+
+/**
+ * Meeting without access lists, as seen by anyone who knows its ID
+ */
+export type PublicMeetingInfo = Omit<PublicMeeting, 'invitedUsers' | 'bannedUsers' | 'roles'>;
+
+/**
+ * Remove fields that must never leave the server (the passcode hash)
+ * Used by the service-authenticated meeting routes.
+ * @param {Meeting} meeting - Meeting data
+ * @returns {PublicMeeting} Meeting data safe to return
+ */
+export const toPublicMeeting = (meeting: Meeting): PublicMeeting => {
+  const { passcodeHash, ...publicMeeting } = meeting;
+  return { ...publicMeeting, hasPasscode: Boolean(passcodeHash) };
+};
+
+/**
+ * Reduce a meeting to what anyone who knows its ID may see
+ * Used by the unauthenticated chat routes: access lists (invites, bans, roles)
+ * are left out as well as the passcode hash.
+ * @param {Meeting} meeting - Meeting data
+ * @returns {PublicMeetingInfo} Meeting data safe to return publicly
+ */
+export const toPublicMeetingInfo = (meeting: Meeting): PublicMeetingInfo => {
+  const publicMeeting = toPublicMeeting(meeting);
+
+  delete publicMeeting.invitedUsers;
+  delete publicMeeting.bannedUsers;
+  delete publicMeeting.roles;
+
+  return publicMeeting;
+};
@@ -0,0 +1,149 @@
+/**
+ * Recurring meeting rules
+ * @module utils/recurrence
+ */
+
+import { RecurrenceRule } from '../types';
+import { isValidDate } from './timezone';
+
+// Upper bound on the occurrences a single series may generate
+export const MAX_SERIES_OCCURRENCES = 100;
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a YYYY-MM-DD date as a UTC calendar day
+ * @param {string} date - Date string
+ * @returns {Date} Midnight UTC of that day
+ */
+const parseDay = (date: string): Date => new Date(`${date}T00:00:00.000Z`);
+
+/**
+ * Format a UTC calendar day as YYYY-MM-DD
+ * @param {Date} day - Day
+ * @returns {string} Date string
+ */
+const formatDay = (day: Date): string => day.toISOString().split('T')[0];
+
+/**
+ * Validate a recurrence rule
+ * @param {Partial<RecurrenceRule>} rule - Rule from the request body (not checked yet)
+ * @param {string} startDate - First occurrence, YYYY-MM-DD
+ * @returns {string | null} Error message, or null if the rule is valid
+ */
+export const validateRecurrenceRule = (
+  rule: Partial<RecurrenceRule>,
+  startDate: string
+): string | null => {
+  if (!rule || typeof rule !== 'object') {
+    return 'Recurrence must be an object';
+  }
+
+  if (!rule.frequency || !FREQUENCIES.includes(rule.frequency)) {
+    return `Recurrence frequency must be one of: ${FREQUENCIES.join(', ')}`;
+  }
+
+  if (rule.interval !== undefined && (!Number.isInteger(rule.interval) || rule.interval < 1)) {
+    return 'Recurrence interval must be a positive integer';
+  }
+
+  if (rule.weekdays !== undefined) {
+    if (rule.frequency !== 'weekly') {
+      return 'Recurrence weekdays are only allowed for weekly meetings';
+    }
+
+    const validWeekdays =
+      Array.isArray(rule.weekdays) &&
+      rule.weekdays.length > 0 &&
+      rule.weekdays.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6);
+
+    if (!validWeekdays) {
+      return 'Recurrence weekdays must be numbers from 0 (Sunday) to 6 (Saturday)';
+    }
+  }
+
+  if (rule.until === undefined && rule.count === undefined) {
+    return 'Recurrence needs an end date (until) or a count';
+  }
+
+  if (rule.until !== undefined) {
+    if (!isValidDate(rule.until)) {
+      return 'Recurrence until must be a valid date in YYYY-MM-DD format';
+    }
+
+    if (rule.until < startDate) {
+      return 'Recurrence until must not be before the meeting date';
+    }
+  }
+
+  if (rule.count !== undefined) {
+    if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_SERIES_OCCURRENCES) {
+      return `Recurrence count must be between 1 and ${MAX_SERIES_OCCURRENCES}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * List the dates a recurrence rule generates
+ * Occurrences start on the start date; weekly rules keep only the listed
+ * weekdays. Monthly meetings on the 29th-31st skip months without that day.
+ * @param {string} startDate - First occurrence, YYYY-MM-DD
+ * @param {RecurrenceRule} rule - Validated rule
+ * @returns {string[] | null} Dates in order, or null if more than MAX_SERIES_OCCURRENCES
+ */
+export const expandRecurrence = (startDate: string, rule: RecurrenceRule): string[] | null => {
+  const interval = rule.interval || 1;
+  const start = parseDay(startDate);
+  const until = rule.until ? parseDay(rule.until) : null;
+  const limit = rule.count ?? MAX_SERIES_OCCURRENCES + 1;
+  const dates: string[] = [];
+
+  const add = (day: Date): boolean => {
+    if (until && day > until) return false;
+    dates.push(formatDay(day));
+    return dates.length < limit;
+  };
+
+  if (rule.frequency === 'daily') {
+    let step = 0;
+    while (add(new Date(start.getTime() + step * interval * DAY_MS))) {
+      step++;
+    }
+  }
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = [...new Set(rule.weekdays || [start.getUTCDay()])].sort((a, b) => a - b);
+    const weekStart = start.getTime() - start.getUTCDay() * DAY_MS;
+
+    weeks: for (let week = 0; ; week += interval) {
+      for (const weekday of weekdays) {
+        const day = new Date(weekStart + (week * 7 + weekday) * DAY_MS);
+        if (day < start) continue;
+        if (!add(day)) break weeks;
+      }
+    }
+  }
+
+  if (rule.frequency === 'monthly') {
+    const dayOfMonth = start.getUTCDate();
+
+    for (let month = 0; ; month += interval) {
+      const day = new Date(
+        Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + month, dayOfMonth)
+      );
+
+      // Date.UTC rolls over into the next month when the day doesn't exist
+      if (day.getUTCDate() !== dayOfMonth) {
+        if (until && day > until) break;
+        continue;
+      }
+
+      if (!add(day)) break;
+    }
+  }
+
+  return dates.length > MAX_SERIES_OCCURRENCES ? null : dates;
+};
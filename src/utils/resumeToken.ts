@@ -0,0 +1,48 @@
+/**
+ * Session resume tokens (see utils/signedToken for the format)
+ * A token lets a reconnecting client take over the slot its previous socket held.
+ * @module utils/resumeToken
+ */
+
+import { readSignedToken, signToken } from './signedToken';
+
+/**
+ * Data carried by a resume token
+ * @interface ResumeTokenPayload
+ */
+export interface ResumeTokenPayload {
+  uid: string; // User ID
+  mid: string; // Meeting ID
+  sid: string; // Socket ID the token was issued to
+}
+
+const SECRET_ENV = 'RESUME_TOKEN_SECRET';
+
+/**
+ * Create a signed resume token
+ * @param {ResumeTokenPayload} payload - Token data
+ * @returns {string} Token
+ */
+export const signResumeToken = (payload: ResumeTokenPayload): string => {
+  return signToken(payload, SECRET_ENV);
+};
+
+/**
+ * Check a resume token's signature and read its payload
+ * @param {string} token - Token
+ * @returns {ResumeTokenPayload | null} Payload, or null if the token is malformed or forged
+ */
+export const verifyResumeToken = (token: string): ResumeTokenPayload | null => {
+  const payload = readSignedToken(token, SECRET_ENV);
+
+  if (
+    !payload ||
+    typeof payload.uid !== 'string' ||
+    typeof payload.mid !== 'string' ||
+    typeof payload.sid !== 'string'
+  ) {
+    return null;
+  }
+
+  return { uid: payload.uid, mid: payload.mid, sid: payload.sid };
+};
@@ -0,0 +1,90 @@
+/**
+ * HMAC-signed tokens
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the payload part)
+ * @module utils/signedToken
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { logger } from './logger';
+
+// Used when a secret is unset outside production (tokens break on restart), by env var name
+const fallbackSecrets = new Map<string, string>();
+
+/**
+ * Get the secret configured in an env var
+ * @param {string} secretEnv - Env var holding the secret
+ * @returns {string} Secret
+ * @throws {Error} In production when the env var is not set
+ */
+const getSecret = (secretEnv: string): string => {
+  const secret = process.env[secretEnv];
+
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`${secretEnv} is not configured`);
+  }
+
+  let fallbackSecret = fallbackSecrets.get(secretEnv);
+  if (!fallbackSecret) {
+    fallbackSecret = randomBytes(32).toString('hex');
+    fallbackSecrets.set(secretEnv, fallbackSecret);
+    logger.warn(`${secretEnv} is not configured, its tokens will not survive a restart`);
+  }
+
+  return fallbackSecret;
+};
+
+/**
+ * Sign the encoded payload part of a token
+ * @param {string} encodedPayload - base64url payload
+ * @param {string} secretEnv - Env var holding the secret
+ * @returns {string} base64url signature
+ */
+const sign = (encodedPayload: string, secretEnv: string): string => {
+  return createHmac('sha256', getSecret(secretEnv)).update(encodedPayload).digest('base64url');
+};
+
+/**
+ * Create a signed token
+ * @param {object} payload - Token data
+ * @param {string} secretEnv - Env var holding the secret
+ * @returns {string} Token
+ */
+export const signToken = (payload: object, secretEnv: string): string => {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload, secretEnv)}`;
+};
+
+/**
+ * Check a token's signature and parse its payload
+ * @param {string} token - Token
+ * @param {string} secretEnv - Env var holding the secret
+ * @returns {Record<string, unknown> | null} Payload, or null if the token is malformed or forged
+ */
+export const readSignedToken = (
+  token: string,
+  secretEnv: string
+): Record<string, unknown> | null => {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload, secretEnv));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: unknown = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    return payload && typeof payload === 'object' ? (payload as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
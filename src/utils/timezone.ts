@@ -0,0 +1,171 @@
+/**
+ * Date, time and timezone helpers for meeting schedules
+ * @module utils/timezone
+ */
+
+// Timezone for meetings created without one (and for legacy meetings)
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'UTC';
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_REGEX = /^(\d{2}):(\d{2})$/;
+
+// Formatters are expensive to build, so keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a formatter that splits an instant into wall-clock parts
+ * @param {string} timeZone - IANA timezone
+ * @returns {Intl.DateTimeFormat} Formatter
+ */
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+/**
+ * Get the wall-clock parts of an instant in a timezone
+ * @param {Date} instant - Instant
+ * @param {string} timeZone - IANA timezone
+ * @returns {Record<string, number>} year, month, day, hour, minute, second
+ */
+const getZonedParts = (instant: Date, timeZone: string): Record<string, number> => {
+  const parts: Record<string, number> = {};
+
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return parts;
+};
+
+/**
+ * Get how far a timezone is ahead of UTC at an instant
+ * @param {Date} instant - Instant
+ * @param {string} timeZone - IANA timezone
+ * @returns {number} Offset in milliseconds
+ */
+const getTimeZoneOffsetMs = (instant: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timeZone);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  return wallClockAsUtc - (instant.getTime() - instant.getUTCMilliseconds());
+};
+
+/**
+ * Check if a string is a known IANA timezone (e.g. "America/Bogota")
+ * @param {unknown} timeZone - Timezone
+ * @returns {boolean} True if valid
+ */
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check if a string is a real calendar date in YYYY-MM-DD format
+ * @param {unknown} date - Date string
+ * @returns {boolean} True if valid (rejects e.g. 2025-02-30)
+ */
+export const isValidDate = (date: unknown): date is string => {
+  const match = typeof date === 'string' ? DATE_REGEX.exec(date) : null;
+
+  if (!match) {
+    return false;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+
+  return (
+    parsed.getUTCFullYear() === year &&
+    parsed.getUTCMonth() === month - 1 &&
+    parsed.getUTCDate() === day
+  );
+};
+
+/**
+ * Check if a string is a real time in HH:mm format (24h)
+ * @param {unknown} time - Time string
+ * @returns {boolean} True if valid (rejects e.g. 25:99)
+ */
+export const isValidTime = (time: unknown): time is string => {
+  const match = typeof time === 'string' ? TIME_REGEX.exec(time) : null;
+
+  if (!match) {
+    return false;
+  }
+
+  const [hour, minute] = match.slice(1).map(Number);
+  return hour <= 23 && minute <= 59;
+};
+
+/**
+ * Convert a wall-clock date and time in a timezone to an absolute instant
+ * Times skipped by a DST change resolve to the equivalent time after it.
+ * @param {string} date - Date, YYYY-MM-DD
+ * @param {string} time - Time, HH:mm
+ * @param {string} timeZone - IANA timezone
+ * @returns {Date} Instant (Invalid Date if date or time is malformed)
+ */
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const wallClockAsUtc = Date.parse(`${date}T${time}:00.000Z`);
+
+  if (isNaN(wallClockAsUtc)) {
+    return new Date(NaN);
+  }
+
+  const offset = getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  const instant = wallClockAsUtc - offset;
+
+  // The offset at the real instant differs near DST changes
+  const correctedOffset = getTimeZoneOffsetMs(new Date(instant), timeZone);
+  if (correctedOffset === offset) {
+    return new Date(instant);
+  }
+
+  const corrected = wallClockAsUtc - correctedOffset;
+  if (getTimeZoneOffsetMs(new Date(corrected), timeZone) === correctedOffset) {
+    return new Date(corrected);
+  }
+
+  // Neither offset fits: the time falls in a DST gap
+  return new Date(Math.max(instant, corrected));
+};
+
+/**
+ * Get the calendar date of an instant in a timezone
+ * @param {Date} instant - Instant
+ * @param {string} timeZone - IANA timezone
+ * @returns {string} Date, YYYY-MM-DD
+ */
+export const getDateInTimeZone = (instant: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
@@ -0,0 +1,109 @@
+/**
+ * Token bucket rate limiter
+ * @module utils/tokenBucket
+ */
+
+/**
+ * Bucket size and refill speed
+ * @interface BucketOptions
+ */
+export interface BucketOptions {
+  capacity: number; // Maximum burst
+  refillPerSecond: number; // Sustained rate
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Keyed token buckets (one bucket per key, e.g. per IP or per socket)
+ * @class TokenBucketLimiter
+ */
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+  private readonly options: BucketOptions;
+
+  constructor(options: BucketOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Take tokens from a key's bucket
+   * @param {string} key - Bucket key
+   * @param {number} cost - Tokens to take
+   * @returns {boolean} True if allowed, false if the key is throttled
+   */
+  consume(key: string, cost = 1): boolean {
+    const bucket = this.refill(key);
+
+    if (bucket.tokens < cost) {
+      return false;
+    }
+
+    bucket.tokens -= cost;
+    return true;
+  }
+
+  /**
+   * Time until a key has enough tokens again
+   * @param {string} key - Bucket key
+   * @param {number} cost - Tokens needed
+   * @returns {number} Milliseconds to wait (0 if allowed now)
+   */
+  retryAfterMs(key: string, cost = 1): number {
+    const bucket = this.refill(key);
+    const missing = cost - bucket.tokens;
+
+    if (missing <= 0) {
+      return 0;
+    }
+
+    return Math.ceil((missing / this.options.refillPerSecond) * 1000);
+  }
+
+  /**
+   * Forget a key's bucket
+   * @param {string} key - Bucket key
+   */
+  delete(key: string): void {
+    this.buckets.delete(key);
+  }
+
+  /**
+   * Drop buckets that are full again; they behave like new ones
+   */
+  prune(): void {
+    for (const key of this.buckets.keys()) {
+      if (this.refill(key).tokens >= this.options.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get a key's bucket with tokens refilled up to now
+   * @param {string} key - Bucket key
+   * @returns {Bucket} Bucket
+   */
+  private refill(key: string): Bucket {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      const fresh = { tokens: this.options.capacity, updatedAt: now };
+      this.buckets.set(key, fresh);
+      return fresh;
+    }
+
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(
+      this.options.capacity,
+      bucket.tokens + elapsedSeconds * this.options.refillPerSecond
+    );
+    bucket.updatedAt = now;
+
+    return bucket;
+  }
+}
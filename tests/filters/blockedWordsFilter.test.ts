@@ -0,0 +1,61 @@
+import { BlockedWordsMode, createBlockedWordsFilter } from '../../src/filters';
+
+const check = (words: string[], mode: BlockedWordsMode, message: string) =>
+  createBlockedWordsFilter(words, mode).apply({ meetingId: 'm1', userId: 'alice', message });
+
+describe('createBlockedWordsFilter', () => {
+  it('masks whole words, ignoring case', () => {
+    expect(check(['darn', 'heck'], 'mask', 'Darn it, what the HECK')).toEqual({
+      allowed: true,
+      message: '**** it, what the ****',
+    });
+  });
+
+  it('rejects instead of masking in reject mode', () => {
+    const result = check(['darn'], 'reject', 'oh darn');
+
+    expect(result).toEqual({
+      allowed: false,
+      rule: 'blocked-words',
+      reason: 'Message contains blocked words',
+    });
+  });
+
+  it('gives the same answer every time in reject mode', () => {
+    const filter = createBlockedWordsFilter(['darn'], 'reject');
+    const context = { meetingId: 'm1', userId: 'alice', message: 'darn' };
+
+    expect(filter.apply(context).allowed).toBe(false);
+    expect(filter.apply(context).allowed).toBe(false);
+  });
+
+  it('leaves words that only contain a blocked word', () => {
+    expect(check(['ass'], 'mask', 'a classic assessment')).toEqual({
+      allowed: true,
+      message: 'a classic assessment',
+    });
+    expect(check(['ass'], 'reject', 'a classic assessment').allowed).toBe(true);
+  });
+
+  it('uses Unicode word boundaries', () => {
+    // Accented letters are part of the word, so "café" does not contain "caf"
+    expect(check(['caf'], 'reject', 'un café').allowed).toBe(true);
+    expect(check(['café'], 'mask', 'un café, deux cafés')).toEqual({
+      allowed: true,
+      message: 'un ****, deux cafés',
+    });
+    expect(check(['straße'], 'reject', 'die Straße.').allowed).toBe(false);
+  });
+
+  it('masks one star per character', () => {
+    expect(check(['niño'], 'mask', 'niño')).toEqual({ allowed: true, message: '****' });
+  });
+
+  it('treats regex characters in words literally', () => {
+    expect(check(['a.b'], 'mask', 'a.b axb')).toEqual({ allowed: true, message: '*** axb' });
+  });
+
+  it('does nothing without words', () => {
+    expect(check([' ', ''], 'reject', 'anything')).toEqual({ allowed: true, message: 'anything' });
+  });
+});
@@ -0,0 +1,81 @@
+import { createMessageFilters, runMessageFilters } from '../../src/filters';
+
+const ENV_KEYS = [
+  'CHAT_MAX_MESSAGE_LENGTH',
+  'CHAT_MAX_REPEATED_MESSAGES',
+  'CHAT_REPEAT_WINDOW_MS',
+  'CHAT_BLOCKED_WORDS',
+  'CHAT_BLOCKED_WORDS_MODE',
+];
+
+const send = (filters: ReturnType<typeof createMessageFilters>, message: string) =>
+  runMessageFilters(filters, { meetingId: 'm1', userId: 'alice', message });
+
+describe('createMessageFilters', () => {
+  const saved = ENV_KEYS.map((key) => [key, process.env[key]] as const);
+
+  afterEach(() => {
+    for (const [key, value] of saved) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it('uses the default length limit when the env value is not a number', () => {
+    process.env.CHAT_MAX_MESSAGE_LENGTH = 'lots';
+    const filters = createMessageFilters();
+
+    expect(send(filters, 'a'.repeat(1000)).allowed).toBe(true);
+    expect(send(filters, 'b'.repeat(1001))).toMatchObject({ allowed: false, rule: 'max-length' });
+  });
+
+  it('uses the default repeat limits when the env values are not numbers', () => {
+    process.env.CHAT_MAX_REPEATED_MESSAGES = 'three';
+    process.env.CHAT_REPEAT_WINDOW_MS = '';
+    const filters = createMessageFilters();
+
+    for (let i = 0; i < 3; i++) {
+      expect(send(filters, 'hello').allowed).toBe(true);
+    }
+    expect(send(filters, 'hello')).toMatchObject({ allowed: false, rule: 'repeated-messages' });
+  });
+
+  it('runs the configured filters in order', () => {
+    process.env.CHAT_MAX_MESSAGE_LENGTH = '5';
+    process.env.CHAT_BLOCKED_WORDS = 'darn';
+    const filters = createMessageFilters();
+
+    // Length is checked before masking
+    expect(send(filters, 'darn')).toEqual({ allowed: true, message: '****' });
+    expect(send(filters, 'darn it')).toMatchObject({ allowed: false, rule: 'max-length' });
+  });
+});
+
+describe('runMessageFilters', () => {
+  it('passes the text of each filter to the next and stops at the first rejection', () => {
+    const seen: string[] = [];
+    const result = runMessageFilters(
+      [
+        { name: 'upper', apply: ({ message }) => ({ allowed: true, message: message.toUpperCase() }) },
+        {
+          name: 'reject',
+          apply: ({ message }) => {
+            seen.push(message);
+            return { allowed: false, rule: 'reject', reason: 'no' };
+          },
+        },
+        {
+          name: 'never',
+          apply: ({ message }) => {
+            seen.push(`never ${message}`);
+            return { allowed: true, message };
+          },
+        },
+      ],
+      { meetingId: 'm1', userId: 'alice', message: 'hi' }
+    );
+
+    expect(result).toEqual({ allowed: false, rule: 'reject', reason: 'no' });
+    expect(seen).toEqual(['HI']);
+  });
+});
@@ -0,0 +1,78 @@
+import { createLinkFilter, LinkFilterOptions } from '../../src/filters';
+
+const check = (options: Partial<LinkFilterOptions>, message: string) =>
+  createLinkFilter({ allowLinks: true, allowedDomains: [], deniedDomains: [], ...options }).apply({
+    meetingId: 'm1',
+    userId: 'alice',
+    message,
+  });
+
+describe('createLinkFilter', () => {
+  it('allows any link by default', () => {
+    expect(check({}, 'see https://example.com/a')).toEqual({
+      allowed: true,
+      message: 'see https://example.com/a',
+    });
+  });
+
+  it('rejects every link when links are off', () => {
+    expect(check({ allowLinks: false }, 'see www.example.com')).toEqual({
+      allowed: false,
+      rule: 'links',
+      reason: 'Links are not allowed',
+    });
+    expect(check({ allowLinks: false }, 'no links here').allowed).toBe(true);
+  });
+
+  it('rejects denied domains and their subdomains', () => {
+    const options = { deniedDomains: ['Evil.com'] };
+
+    expect(check(options, 'http://evil.com')).toMatchObject({
+      allowed: false,
+      reason: 'Links to evil.com are not allowed',
+    });
+    expect(check(options, 'https://cdn.evil.com/x').allowed).toBe(false);
+    expect(check(options, 'www.evil.com').allowed).toBe(false);
+    expect(check(options, 'https://notevil.com').allowed).toBe(true);
+    expect(check(options, 'https://evil.com.example.org').allowed).toBe(true);
+  });
+
+  it('only allows listed domains when an allowlist is set', () => {
+    const options = { allowedDomains: ['www.example.com'] };
+
+    expect(check(options, 'https://example.com').allowed).toBe(true);
+    expect(check(options, 'https://docs.example.com/page').allowed).toBe(true);
+    expect(check(options, 'ok https://example.com and https://other.org').allowed).toBe(false);
+  });
+
+  it('prefers the denylist over the allowlist', () => {
+    const options = { allowedDomains: ['example.com'], deniedDomains: ['bad.example.com'] };
+
+    expect(check(options, 'https://bad.example.com').allowed).toBe(false);
+  });
+
+  it('checks bare hosts', () => {
+    const options = { deniedDomains: ['evil.com'] };
+
+    expect(check(options, 'go to evil.com/x now')).toMatchObject({
+      allowed: false,
+      reason: 'Links to evil.com are not allowed',
+    });
+    expect(check(options, 'EVIL.COM.')).toMatchObject({ allowed: false });
+    expect(check(options, 'sub.evil.com:8080?q=1').allowed).toBe(false);
+    expect(check({ allowLinks: false }, 'example.org').allowed).toBe(false);
+  });
+
+  it('does not take numbers or email addresses for links', () => {
+    const options = { allowLinks: false };
+
+    expect(check(options, 'version 1.5 of 2.10.3').allowed).toBe(true);
+    expect(check(options, 'mail bob@example.com or bob.smith@example.com').allowed).toBe(true);
+    expect(check(options, 'e.g. this').allowed).toBe(true);
+  });
+
+  it('treats file names with a letters-only extension as bare hosts', () => {
+    // Documented limit of bare host matching
+    expect(check({ allowLinks: false }, 'open notes.txt').allowed).toBe(false);
+  });
+});
@@ -0,0 +1,25 @@
+import { createMaxLengthFilter } from '../../src/filters';
+
+const check = (maxLength: number, message: string) =>
+  createMaxLengthFilter(maxLength).apply({ meetingId: 'm1', userId: 'alice', message });
+
+describe('createMaxLengthFilter', () => {
+  it('allows messages up to the limit', () => {
+    expect(check(5, 'hello')).toEqual({ allowed: true, message: 'hello' });
+  });
+
+  it('rejects longer messages', () => {
+    expect(check(5, 'hello!')).toEqual({
+      allowed: false,
+      rule: 'max-length',
+      reason: 'Message is too long (maximum 5 characters)',
+    });
+  });
+
+  it('counts code points, not UTF-16 units', () => {
+    // Each emoji is two UTF-16 units
+    expect('😀😀😀'.length).toBe(6);
+    expect(check(3, '😀😀😀').allowed).toBe(true);
+    expect(check(3, '😀😀😀😀').allowed).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { createRepeatedMessageFilter } from '../../src/filters';
+
+describe('createRepeatedMessageFilter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sender =
+    (filter: ReturnType<typeof createRepeatedMessageFilter>, userId = 'alice', meetingId = 'm1') =>
+    (message: string) =>
+      filter.apply({ meetingId, userId, message });
+
+  it('rejects once the same text was sent the maximum number of times', () => {
+    const send = sender(createRepeatedMessageFilter(2, 1000));
+
+    expect(send('hi').allowed).toBe(true);
+    expect(send('hi').allowed).toBe(true);
+    expect(send('hi')).toEqual({
+      allowed: false,
+      rule: 'repeated-messages',
+      reason: 'Please do not repeat the same message',
+    });
+  });
+
+  it('ignores case and extra spaces', () => {
+    const send = sender(createRepeatedMessageFilter(1, 1000));
+
+    expect(send('Hello  there').allowed).toBe(true);
+    expect(send(' hello there ').allowed).toBe(false);
+  });
+
+  it('starts a new count after a different message', () => {
+    const send = sender(createRepeatedMessageFilter(1, 1000));
+
+    expect(send('hi').allowed).toBe(true);
+    expect(send('bye').allowed).toBe(true);
+    expect(send('hi').allowed).toBe(true);
+  });
+
+  it('starts a new count once the window has passed', () => {
+    const send = sender(createRepeatedMessageFilter(1, 1000));
+
+    expect(send('hi').allowed).toBe(true);
+    now += 1000;
+    expect(send('hi').allowed).toBe(false);
+    now += 1001;
+    expect(send('hi').allowed).toBe(true);
+  });
+
+  it('measures the window from the last accepted repeat', () => {
+    const send = sender(createRepeatedMessageFilter(2, 1000));
+
+    expect(send('hi').allowed).toBe(true);
+    now += 800;
+    expect(send('hi').allowed).toBe(true);
+    now += 800;
+    expect(send('hi').allowed).toBe(false);
+  });
+
+  it('counts each user in each meeting separately', () => {
+    const filter = createRepeatedMessageFilter(1, 1000);
+
+    expect(sender(filter, 'alice')('hi').allowed).toBe(true);
+    expect(sender(filter, 'bob')('hi').allowed).toBe(true);
+    expect(sender(filter, 'alice', 'm2')('hi').allowed).toBe(true);
+    expect(sender(filter, 'alice')('hi').allowed).toBe(false);
+  });
+});
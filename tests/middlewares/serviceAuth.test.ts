@@ -0,0 +1,103 @@
+import { RedisClient } from '../../src/config/redis';
+import { RawBodyRequest, serviceAuth, signRequest } from '../../src/middlewares/serviceAuth';
+import { createRedisStandIn } from '../support/redisStandIn';
+
+const mockRedis: { client: RedisClient | null } = { client: null };
+
+jest.mock('../../src/config/redis', () => ({
+  isRedisConfigured: () => mockRedis.client !== null,
+  getRedisClient: () => mockRedis.client,
+}));
+
+const SECRET = 'test-secret';
+
+/**
+ * Build a signed request the way the User Backend does
+ */
+const signedRequest = (nonce: string, timestamp = String(Date.now())): RawBodyRequest => {
+  const base = { method: 'GET', originalUrl: '/api/meetings/m1', rawBody: undefined };
+  const headers: Record<string, string> = {
+    'x-timestamp': timestamp,
+    'x-nonce': nonce,
+    'x-signature': signRequest(SECRET, timestamp, nonce, base),
+  };
+
+  return { ...base, header: (name: string) => headers[name.toLowerCase()] } as RawBodyRequest;
+};
+
+/**
+ * Run the middleware and return what it passed to next()
+ */
+const authenticate = async (
+  req: RawBodyRequest
+): Promise<{ statusCode?: number; message?: string }> => {
+  const next = jest.fn();
+  await serviceAuth(req, {} as never, next);
+  return next.mock.calls[0][0] || {};
+};
+
+describe('serviceAuth signed requests', () => {
+  const saved = { keys: process.env.SERVICE_API_KEYS, secret: process.env.SERVICE_HMAC_SECRET };
+
+  beforeAll(() => {
+    delete process.env.SERVICE_API_KEYS;
+    process.env.SERVICE_HMAC_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    if (saved.keys !== undefined) process.env.SERVICE_API_KEYS = saved.keys;
+    if (saved.secret !== undefined) process.env.SERVICE_HMAC_SECRET = saved.secret;
+    else delete process.env.SERVICE_HMAC_SECRET;
+  });
+
+  it('rejects a bad signature', async () => {
+    const req = signedRequest('n-bad');
+    const header = req.header.bind(req);
+    req.header = ((name: string) =>
+      name === 'x-signature' ? 'f'.repeat(64) : header(name)) as RawBodyRequest['header'];
+
+    expect(await authenticate(req)).toMatchObject({
+      statusCode: 401,
+      message: 'Invalid request signature',
+    });
+  });
+
+  it('rejects a request outside the time window', async () => {
+    const req = signedRequest('n-old', String(Date.now() - 10 * 60 * 1000));
+
+    expect(await authenticate(req)).toMatchObject({ statusCode: 401 });
+  });
+
+  describe.each([
+    ['in memory', async (): Promise<RedisClient | null> => null],
+    ['in Redis', (): Promise<RedisClient> => createRedisStandIn()],
+  ])('nonces %s', (name, createClient) => {
+    beforeEach(async () => {
+      mockRedis.client = await createClient();
+    });
+
+    afterAll(() => {
+      mockRedis.client = null;
+    });
+
+    it('accepts a nonce once', async () => {
+      const nonce = `n-${name.replace(' ', '-')}`;
+
+      expect(await authenticate(signedRequest(nonce))).toEqual({});
+      expect(await authenticate(signedRequest(nonce))).toMatchObject({
+        statusCode: 401,
+        message: 'Request nonce has already been used',
+      });
+    });
+  });
+
+  it('refuses a nonce replayed against another instance through Redis', async () => {
+    mockRedis.client = await createRedisStandIn();
+
+    // Another instance already stored the nonce
+    await mockRedis.client.set('service-auth:nonce:shared', '1', { PX: 60000, NX: true });
+
+    expect(await authenticate(signedRequest('shared'))).toMatchObject({ statusCode: 401 });
+    mockRedis.client = null;
+  });
+});
@@ -0,0 +1,141 @@
+import { Socket } from 'socket.io';
+import {
+  createSocketAuthMiddleware,
+  devTokenVerifier,
+  firebaseTokenVerifier,
+  getSocketUser,
+  getTokenVerifier,
+  TokenVerifier,
+} from '../../src/middlewares/socketAuth';
+
+// Accepts "token-<uid>", rejects anything else, without calling Firebase
+const stubVerifier: TokenVerifier = async (token) => {
+  if (!token.startsWith('token-')) {
+    throw new Error('invalid token');
+  }
+
+  const userId = token.slice('token-'.length);
+  return { userId, username: `User ${userId}` };
+};
+
+const createSocket = (
+  auth: Record<string, unknown> = {},
+  headers: Record<string, string> = {}
+): Socket =>
+  ({
+    id: 'socket-1',
+    handshake: { auth, headers },
+    data: {},
+  }) as unknown as Socket;
+
+const runHandshake = async (socket: Socket): Promise<Error | undefined> => {
+  const middleware = createSocketAuthMiddleware(stubVerifier);
+  let result: Error | undefined;
+
+  await middleware(socket, (err) => {
+    result = err;
+  });
+
+  return result;
+};
+
+describe('createSocketAuthMiddleware', () => {
+  it('binds the verified uid to the socket', async () => {
+    const socket = createSocket({ token: 'token-alice' });
+
+    expect(await runHandshake(socket)).toBeUndefined();
+    expect(getSocketUser(socket)).toEqual({ userId: 'alice', username: 'User alice' });
+  });
+
+  it('accepts a bearer token from the Authorization header', async () => {
+    const socket = createSocket({}, { authorization: 'Bearer token-bob' });
+
+    expect(await runHandshake(socket)).toBeUndefined();
+    expect(getSocketUser(socket).userId).toBe('bob');
+  });
+
+  it('rejects a handshake without a token', async () => {
+    const socket = createSocket();
+
+    const error = await runHandshake(socket);
+
+    expect(error?.message).toBe('Authentication required');
+    expect(socket.data.user).toBeUndefined();
+  });
+
+  it('rejects a token the verifier refuses', async () => {
+    const socket = createSocket({ token: 'forged' });
+
+    const error = await runHandshake(socket);
+
+    expect(error?.message).toBe('Invalid authentication token');
+    expect(socket.data.user).toBeUndefined();
+  });
+
+  it('ignores a userId sent by the client', async () => {
+    const socket = createSocket({ token: 'token-alice', userId: 'mallory' });
+
+    await runHandshake(socket);
+
+    expect(getSocketUser(socket).userId).toBe('alice');
+  });
+});
+
+describe('devTokenVerifier', () => {
+  it('reads the user ID and optional username from the token', async () => {
+    expect(await devTokenVerifier('alice')).toEqual({ userId: 'alice', username: undefined });
+    expect(await devTokenVerifier('alice:Alice Smith')).toEqual({
+      userId: 'alice',
+      username: 'Alice Smith',
+    });
+  });
+
+  it('rejects a token without a user ID', async () => {
+    await expect(devTokenVerifier(':Alice')).rejects.toThrow('Dev token must start with a user ID');
+  });
+});
+
+describe('getTokenVerifier', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('uses the dev verifier with in-memory storage', () => {
+    process.env.NODE_ENV = 'development';
+    process.env.STORAGE_DRIVER = 'memory';
+    delete process.env.SOCKET_AUTH_VERIFIER;
+
+    expect(getTokenVerifier()).toBe(devTokenVerifier);
+  });
+
+  it('uses Firebase with Firestore storage', () => {
+    process.env.STORAGE_DRIVER = 'firestore';
+    delete process.env.SOCKET_AUTH_VERIFIER;
+
+    expect(getTokenVerifier()).toBe(firebaseTokenVerifier);
+  });
+
+  it('follows SOCKET_AUTH_VERIFIER', () => {
+    process.env.NODE_ENV = 'development';
+    process.env.STORAGE_DRIVER = 'firestore';
+    process.env.SOCKET_AUTH_VERIFIER = 'dev';
+
+    expect(getTokenVerifier()).toBe(devTokenVerifier);
+  });
+
+  it('refuses the dev verifier in production', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.STORAGE_DRIVER = 'memory';
+    delete process.env.SOCKET_AUTH_VERIFIER;
+
+    expect(() => getTokenVerifier()).toThrow('cannot be used in production');
+  });
+
+  it('rejects an unknown verifier', () => {
+    process.env.SOCKET_AUTH_VERIFIER = 'none';
+
+    expect(() => getTokenVerifier()).toThrow('Unknown SOCKET_AUTH_VERIFIER');
+  });
+});
@@ -0,0 +1,225 @@
+import { MemoryPresenceStore, PresenceStore, RedisPresenceStore } from '../../src/presence';
+import { LobbyEntry, OnlineUser } from '../../src/types';
+import { createRedisStandIn } from '../support/redisStandIn';
+
+const onlineUser = (userId: string, socketId: string, meetingId = 'm1'): OnlineUser => ({
+  userId,
+  meetingId,
+  socketIds: [socketId],
+  username: userId,
+  joinedAt: new Date().toISOString(),
+});
+
+const lobbyEntry = (userId: string, socketId: string, requestedAt: string): LobbyEntry => ({
+  userId,
+  socketId,
+  username: userId,
+  requestedAt,
+});
+
+const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe.each([
+  ['MemoryPresenceStore', async (): Promise<PresenceStore> => new MemoryPresenceStore()],
+  [
+    'RedisPresenceStore',
+    async (): Promise<PresenceStore> => new RedisPresenceStore(await createRedisStandIn(), 'node-a'),
+  ],
+])('%s', (_name, createStore) => {
+  let store: PresenceStore;
+
+  beforeEach(async () => {
+    store = await createStore();
+  });
+
+  it('adds users up to the meeting capacity', async () => {
+    expect((await store.join(onlineUser('alice', 's1'), 2)).status).toBe('joined');
+    expect((await store.join(onlineUser('bob', 's2'), 2)).status).toBe('joined');
+
+    const result = await store.join(onlineUser('carol', 's3'), 2);
+
+    expect(result.status).toBe('full');
+    expect(result.participants.map((p) => p.userId)).toEqual(['alice', 'bob']);
+    expect(await store.countUsers()).toBe(2);
+    expect(await store.countMeetings()).toBe(1);
+  });
+
+  it('keeps one slot per user across devices', async () => {
+    await store.join(onlineUser('alice', 's1'), 1);
+
+    const second = await store.join(onlineUser('alice', 's2'), 1);
+    expect(second.status).toBe('rejoined');
+    expect(second.participants).toHaveLength(1);
+    expect(second.participants[0].socketIds).toEqual(['s1', 's2']);
+
+    const firstLeave = await store.leave('m1', 's1');
+    expect(firstLeave.left).toBe(false);
+    expect(firstLeave.user?.socketIds).toEqual(['s2']);
+
+    const lastLeave = await store.leave('m1', 's2');
+    expect(lastLeave.left).toBe(true);
+    expect(lastLeave.participants).toEqual([]);
+    expect(await store.getMeetingIds()).toEqual([]);
+  });
+
+  it('ignores a socket that is not in the meeting', async () => {
+    await store.join(onlineUser('alice', 's1'), 10);
+
+    const result = await store.leave('m1', 'unknown');
+
+    expect(result.user).toBeNull();
+    expect(result.left).toBe(false);
+  });
+
+  it('indexes every meeting a socket is in', async () => {
+    await store.join(onlineUser('alice', 's1', 'm1'), 10);
+    await store.join(onlineUser('alice', 's1', 'm2'), 10);
+
+    expect((await store.getSocketMeetingIds('s1')).sort()).toEqual(['m1', 'm2']);
+
+    await store.leave('m1', 's1');
+    expect(await store.getSocketMeetingIds('s1')).toEqual(['m2']);
+  });
+
+  it('hands a reconnecting slot to the new socket once', async () => {
+    await store.join(onlineUser('alice', 's1'), 10);
+
+    const held = await store.setReconnecting('m1', 's1', '2025-01-01T00:00:00.000Z');
+    expect(held?.reconnectingSince).toBe('2025-01-01T00:00:00.000Z');
+
+    const participants = await store.resume('m1', 'alice', 's1', 's2');
+    expect(participants?.[0].socketIds).toEqual(['s2']);
+    expect(participants?.[0].reconnectingSince).toBeUndefined();
+    expect(await store.getSocketMeetingIds('s1')).toEqual([]);
+    expect(await store.getSocketMeetingIds('s2')).toEqual(['m1']);
+
+    expect(await store.resume('m1', 'alice', 's1', 's3')).toBeNull();
+  });
+
+  it('forgets mutes once the meeting is empty', async () => {
+    await store.join(onlineUser('alice', 's1'), 10);
+    await store.setMuted('m1', 'alice', true);
+    expect(await store.isMuted('m1', 'alice')).toBe(true);
+
+    await store.leave('m1', 's1');
+    expect(await store.isMuted('m1', 'alice')).toBe(false);
+  });
+
+  it('keeps a waiting user in their place in line', async () => {
+    expect(await store.enqueueLobby('m1', lobbyEntry('alice', 's1', '2025-01-01T00:00:01.000Z'))).toBe(true);
+    expect(await store.enqueueLobby('m1', lobbyEntry('bob', 's2', '2025-01-01T00:00:02.000Z'))).toBe(true);
+    expect(await store.enqueueLobby('m1', lobbyEntry('alice', 's3', '2025-01-01T00:00:03.000Z'))).toBe(false);
+
+    const lobby = await store.getLobby('m1');
+    expect(lobby.map((entry) => [entry.userId, entry.socketId])).toEqual([
+      ['alice', 's3'],
+      ['bob', 's2'],
+    ]);
+  });
+
+  it('removes a lobby entry only once', async () => {
+    await store.enqueueLobby('m1', lobbyEntry('alice', 's1', '2025-01-01T00:00:01.000Z'));
+
+    expect((await store.removeFromLobby('m1', 'alice'))?.userId).toBe('alice');
+    expect(await store.removeFromLobby('m1', 'alice')).toBeNull();
+  });
+
+  it('removes a disconnected socket from every lobby', async () => {
+    await store.enqueueLobby('m1', lobbyEntry('alice', 's1', '2025-01-01T00:00:01.000Z'));
+    await store.enqueueLobby('m2', lobbyEntry('alice', 's1', '2025-01-01T00:00:02.000Z'));
+    await store.enqueueLobby('m2', lobbyEntry('bob', 's2', '2025-01-01T00:00:03.000Z'));
+
+    const removed = await store.removeSocketFromLobbies('s1');
+
+    expect(removed.map((r) => r.meetingId).sort()).toEqual(['m1', 'm2']);
+    expect((await store.getLobby('m2')).map((entry) => entry.userId)).toEqual(['bob']);
+  });
+
+  it('empties a lobby', async () => {
+    await store.enqueueLobby('m1', lobbyEntry('alice', 's1', '2025-01-01T00:00:01.000Z'));
+
+    expect((await store.clearLobby('m1')).map((entry) => entry.userId)).toEqual(['alice']);
+    expect(await store.getLobby('m1')).toEqual([]);
+  });
+
+  it('records and resets admissions', async () => {
+    await store.setAdmitted('m1', 'alice', true);
+    await store.setAdmitted('m1', 'bob', true);
+    await store.setAdmitted('m1', 'bob', false);
+
+    expect(await store.isAdmitted('m1', 'alice')).toBe(true);
+    expect(await store.isAdmitted('m1', 'bob')).toBe(false);
+
+    await store.resetAdmitted('m1');
+    expect(await store.isAdmitted('m1', 'alice')).toBe(false);
+  });
+});
+
+describe('RedisPresenceStore across instances', () => {
+  let nodeA: RedisPresenceStore;
+  let nodeB: RedisPresenceStore;
+
+  beforeEach(async () => {
+    const client = await createRedisStandIn();
+    nodeA = new RedisPresenceStore(client, 'node-a');
+    nodeB = new RedisPresenceStore(client, 'node-b');
+  });
+
+  it('checks capacity against users on every instance', async () => {
+    await nodeA.join(onlineUser('alice', 'a1'), 2);
+    await nodeB.join(onlineUser('bob', 'b1'), 2);
+
+    expect((await nodeA.join(onlineUser('carol', 'a2'), 2)).status).toBe('full');
+    expect(await nodeB.countUsers()).toBe(2);
+  });
+
+  it('claims nothing while every instance sends heartbeats', async () => {
+    await nodeA.heartbeat(1000);
+    await nodeB.heartbeat(1000);
+    await nodeA.join(onlineUser('alice', 'a1'), 10);
+
+    expect(await nodeB.claimOrphanedSockets()).toEqual([]);
+  });
+
+  it('hands the sockets of a stopped instance to one caller', async () => {
+    await nodeA.heartbeat(20);
+    await nodeA.join(onlineUser('alice', 'a1'), 10);
+    await nodeA.join(onlineUser('bob', 'a2'), 10);
+    await nodeA.setReconnecting('m1', 'a2', new Date().toISOString());
+    await nodeA.enqueueLobby('m2', lobbyEntry('carol', 'a3', new Date().toISOString()));
+    await nodeB.heartbeat(1000);
+    await nodeB.join(onlineUser('dave', 'b1'), 10);
+
+    await wait(40);
+
+    expect((await nodeB.claimOrphanedSockets()).sort()).toEqual(['a1', 'a2', 'a3']);
+    expect(await nodeB.claimOrphanedSockets()).toEqual([]);
+  });
+
+  it('does not hand out sockets the instance released', async () => {
+    await nodeA.heartbeat(20);
+    await nodeA.join(onlineUser('alice', 'a1'), 10);
+    await nodeA.join(onlineUser('bob', 'a2'), 10);
+    await nodeA.leave('m1', 'a2');
+    await nodeA.releaseSocket('a2');
+
+    await wait(40);
+
+    expect(await nodeB.claimOrphanedSockets()).toEqual(['a1']);
+  });
+
+  it('moves a resumed socket to the instance that resumed it', async () => {
+    await nodeA.heartbeat(20);
+    await nodeB.heartbeat(1000);
+    await nodeA.join(onlineUser('alice', 'a1'), 10);
+    await nodeA.setReconnecting('m1', 'a1', new Date().toISOString());
+    await nodeB.resume('m1', 'alice', 'a1', 'b1');
+
+    await wait(40);
+
+    // The old socket is handed out, but it no longer holds the slot
+    expect(await nodeB.claimOrphanedSockets()).toEqual(['a1']);
+    expect((await nodeB.leave('m1', 'a1')).user).toBeNull();
+    expect((await nodeB.getParticipants('m1'))[0].socketIds).toEqual(['b1']);
+  });
+});
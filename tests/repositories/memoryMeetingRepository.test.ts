@@ -0,0 +1,205 @@
+import { MemoryMeetingRepository } from '../../src/repositories';
+import { ChatMessage, InviteLink, Meeting } from '../../src/types';
+
+const meeting = (overrides: Partial<Meeting> = {}): Meeting => ({
+  meetingId: 'm1',
+  hostId: 'host',
+  title: 'Standup',
+  description: '',
+  date: '2025-01-01',
+  time: '09:00',
+  estimatedDuration: 30,
+  maxParticipants: 10,
+  participants: ['host', 'alice'],
+  activeParticipants: 0,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  status: 'scheduled',
+  ...overrides,
+});
+
+const message = (messageId: string, second: number, userId = 'alice'): ChatMessage => ({
+  messageId,
+  meetingId: 'm1',
+  userId,
+  message: `message ${messageId}`,
+  timestamp: `2025-01-01T09:00:${String(second).padStart(2, '0')}.000Z`,
+});
+
+const inviteLink = (tokenId: string, overrides: Partial<InviteLink> = {}): InviteLink => ({
+  tokenId,
+  meetingId: 'm1',
+  createdBy: 'host',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  expiresAt: '2025-01-02T00:00:00.000Z',
+  maxUses: null,
+  uses: 0,
+  redeemedBy: [],
+  revoked: false,
+  ...overrides,
+});
+
+describe('MemoryMeetingRepository', () => {
+  let repository: MemoryMeetingRepository;
+
+  beforeEach(async () => {
+    repository = new MemoryMeetingRepository();
+    await repository.create(meeting());
+  });
+
+  describe('meetings', () => {
+    it('returns copies with the document id', async () => {
+      const found = await repository.findById('m1');
+      found?.participants.push('mallory');
+
+      expect(found).toMatchObject({ id: 'm1', meetingId: 'm1' });
+      expect((await repository.findById('m1'))?.participants).toEqual(['host', 'alice']);
+      expect(await repository.findById('missing')).toBeNull();
+    });
+
+    it('finds meetings by participant, status and series', async () => {
+      await repository.create(
+        meeting({ meetingId: 'm2', participants: ['bob'], status: 'live', seriesId: 's1' })
+      );
+
+      expect((await repository.findByParticipant('alice')).map((m) => m.id)).toEqual(['m1']);
+      expect((await repository.findByStatus(['live', 'completed'])).map((m) => m.id)).toEqual([
+        'm2',
+      ]);
+      expect((await repository.findBySeries('s1')).map((m) => m.id)).toEqual(['m2']);
+    });
+
+    it('updates existing meetings only', async () => {
+      await repository.update('m1', { title: 'Retro' });
+
+      expect((await repository.findById('m1'))?.title).toBe('Retro');
+      await expect(repository.update('missing', { title: 'x' })).rejects.toThrow(
+        'No meeting to update: missing'
+      );
+    });
+
+    it('updates only while the host and status match', async () => {
+      expect(await repository.updateIfHost('m1', 'alice', { title: 'No' })).toBe(false);
+      expect(
+        await repository.updateIfHost('m1', 'host', { title: 'Yes' }, { alice: 'co-host' })
+      ).toBe(true);
+      expect(await repository.updateIfHost('m1', 'host', {}, { alice: null })).toBe(true);
+
+      expect(await repository.updateIfStatus('m1', 'live', { status: 'completed' })).toBe(false);
+      expect(await repository.updateIfStatus('m1', 'scheduled', { status: 'live' })).toBe(true);
+
+      expect(await repository.findById('m1')).toMatchObject({
+        title: 'Yes',
+        roles: {},
+        status: 'live',
+      });
+    });
+
+    it('deletes a meeting with its messages and invite links', async () => {
+      await repository.saveMessage(message('a', 1));
+      await repository.saveInviteLink(inviteLink('t1'));
+      await repository.delete('m1');
+      await repository.create(meeting());
+
+      expect((await repository.getMessages('m1', { limit: 10 })).messages).toEqual([]);
+      expect(await repository.findInviteLinks('m1')).toEqual([]);
+    });
+  });
+
+  describe('messages', () => {
+    beforeEach(async () => {
+      // Saved out of order; b and b2 share a timestamp
+      for (const [id, second] of [
+        ['c', 3],
+        ['a', 1],
+        ['b2', 2],
+        ['b', 2],
+        ['d', 4],
+      ] as const) {
+        await repository.saveMessage(message(id, second));
+      }
+    });
+
+    const ids = (page: { messages: ChatMessage[] }) => page.messages.map((m) => m.messageId);
+
+    it('pages back from the newest messages', async () => {
+      const latest = await repository.getMessages('m1', { limit: 2 });
+      const older = await repository.getMessages('m1', { limit: 2, before: 'c' });
+
+      expect(ids(latest)).toEqual(['c', 'd']);
+      expect(latest.hasMore).toBe(true);
+      expect(ids(older)).toEqual(['b', 'b2']);
+      expect(older.hasMore).toBe(true);
+    });
+
+    it('pages forward after a cursor', async () => {
+      const newer = await repository.getMessages('m1', { limit: 2, after: 'b' });
+
+      expect(ids(newer)).toEqual(['b2', 'c']);
+      expect(newer.hasMore).toBe(true);
+      expect((await repository.getMessages('m1', { limit: 5, after: 'c' })).hasMore).toBe(false);
+    });
+
+    it('refuses an unknown cursor', async () => {
+      await expect(repository.getMessages('m1', { limit: 2, before: 'zz' })).rejects.toThrow(
+        'Message not found'
+      );
+    });
+
+    it('adds and removes reactions without duplicates', async () => {
+      await repository.setReaction('m1', 'a', '👍', 'bob', true);
+      await repository.setReaction('m1', 'a', '👍', 'bob', true);
+      await repository.setReaction('m1', 'a', '🎉', 'bob', true);
+      await repository.setReaction('m1', 'a', '🎉', 'bob', false);
+
+      expect((await repository.findMessage('m1', 'a'))?.reactions).toEqual({
+        '👍': ['bob'],
+        '🎉': [],
+      });
+      await expect(repository.setReaction('m1', 'zz', '👍', 'bob', true)).rejects.toThrow(
+        'No message to update: zz'
+      );
+    });
+
+    it('counts unread messages from others after the read cursor', async () => {
+      await repository.saveMessage(message('e', 5, 'bob'));
+      await repository.updateMessage('m1', 'd', { deleted: true });
+      const cursor = {
+        userId: 'bob',
+        messageId: 'b',
+        timestamp: '2025-01-01T09:00:02.000Z',
+        readAt: '2025-01-01T09:01:00.000Z',
+      };
+
+      // b2 and c; d is deleted and e is bob's own
+      expect(await repository.countUnreadMessages('m1', 'bob', cursor)).toBe(2);
+      expect(await repository.countUnreadMessages('m1', 'bob', null)).toBe(4);
+    });
+  });
+
+  describe('invite links', () => {
+    it('redeems a link once per user until it runs out', async () => {
+      await repository.saveInviteLink(inviteLink('t1', { maxUses: 1 }));
+
+      expect(await repository.redeemInviteLink('m1', 't1', 'alice')).toBe('redeemed');
+      expect(await repository.redeemInviteLink('m1', 't1', 'alice')).toBe('already-redeemed');
+      expect(await repository.redeemInviteLink('m1', 't1', 'bob')).toBe('exhausted');
+      expect(await repository.redeemInviteLink('m1', 'zz', 'bob')).toBe('not-found');
+      expect((await repository.findInviteLinks('m1'))[0]).toMatchObject({
+        uses: 1,
+        redeemedBy: ['alice'],
+      });
+    });
+
+    it('revokes the listed links or all of them', async () => {
+      for (const tokenId of ['t1', 't2', 't3']) {
+        await repository.saveInviteLink(inviteLink(tokenId));
+      }
+
+      expect(await repository.revokeInviteLinks('m1', ['t1'])).toBe(1);
+      expect(await repository.revokeInviteLinks('m1')).toBe(2);
+      expect(await repository.revokeInviteLinks('m1')).toBe(0);
+      expect(await repository.redeemInviteLink('m1', 't1', 'bob')).toBe('revoked');
+    });
+  });
+});
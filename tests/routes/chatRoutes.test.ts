@@ -0,0 +1,89 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { errorHandler } from '../../src/middlewares/errorHandler';
+import chatRoutes from '../../src/routes/chatRoutes';
+import { ChatService } from '../../src/services/chatService';
+import { ChatMessage } from '../../src/types';
+
+const API_KEY = 'test-key';
+
+describe('chat routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.SERVICE_API_KEYS = API_KEY;
+
+    const chatService = new ChatService();
+    const now = new Date().toISOString();
+    await chatService.createMeeting({
+      meetingId: 'm1',
+      hostId: 'host',
+      title: 'Private',
+      description: '',
+      date: now.slice(0, 10),
+      time: now.slice(11, 16),
+      estimatedDuration: 60,
+      maxParticipants: 10,
+      participants: ['host'],
+      visibility: 'invite-only',
+      invitedUsers: ['alice'],
+      activeParticipants: 0,
+      createdAt: now,
+      updatedAt: now,
+      status: 'scheduled',
+    });
+
+    const message: ChatMessage = {
+      messageId: 'msg-1',
+      meetingId: 'm1',
+      userId: 'host',
+      message: 'secret plans',
+      timestamp: now,
+    };
+    await chatService.saveMessage(message);
+
+    const app = express();
+    app.use('/api/chat', chatRoutes);
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/chat`;
+  });
+
+  afterAll(() => {
+    delete process.env.SERVICE_API_KEYS;
+    server.close();
+  });
+
+  it('refuses chat history without service credentials', async () => {
+    const response = await fetch(`${baseUrl}/meeting/m1/messages`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('refuses threads without service credentials', async () => {
+    const response = await fetch(`${baseUrl}/meeting/m1/messages/msg-1/thread`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('serves chat history to the User Backend', async () => {
+    const response = await fetch(`${baseUrl}/meeting/m1/messages`, {
+      headers: { 'x-api-key': API_KEY },
+    });
+    const body = (await response.json()) as { data: { messages: ChatMessage[] } };
+
+    expect(response.status).toBe(200);
+    expect(body.data.messages.map((m: ChatMessage) => m.message)).toEqual(['secret plans']);
+  });
+
+  it('keeps public meeting info public without access lists', async () => {
+    const response = await fetch(`${baseUrl}/meeting/m1`);
+    const body = (await response.json()) as { data: Record<string, unknown> };
+
+    expect(response.status).toBe(200);
+    expect(body.data.invitedUsers).toBeUndefined();
+  });
+});
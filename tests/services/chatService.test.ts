@@ -0,0 +1,108 @@
+import { MemoryMeetingRepository } from '../../src/repositories';
+import { ChatService } from '../../src/services/chatService';
+import { Meeting } from '../../src/types';
+
+const meeting = (overrides: Partial<Meeting> = {}): Meeting => ({
+  meetingId: 'm1',
+  hostId: 'host',
+  title: 'Standup',
+  description: '',
+  date: '2025-01-01',
+  time: '09:00',
+  estimatedDuration: 30,
+  maxParticipants: 10,
+  participants: ['host', 'alice', 'bob'],
+  activeParticipants: 0,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  status: 'scheduled',
+  ...overrides,
+});
+
+describe('ChatService', () => {
+  let repository: MemoryMeetingRepository;
+  let chatService: ChatService;
+
+  beforeEach(async () => {
+    repository = new MemoryMeetingRepository();
+    chatService = new ChatService(repository);
+    await repository.create(meeting());
+  });
+
+  describe('setMeetingRole', () => {
+    it('keeps concurrent role changes for different users', async () => {
+      // Both read the meeting before either writes
+      await Promise.all([
+        chatService.setMeetingRole('m1', 'alice', 'co-host', 'host'),
+        chatService.setMeetingRole('m1', 'bob', 'viewer', 'host'),
+      ]);
+
+      expect((await repository.findById('m1'))?.roles).toEqual({ alice: 'co-host', bob: 'viewer' });
+    });
+
+    it('removes the stored role when a user goes back to participant', async () => {
+      await chatService.setMeetingRole('m1', 'alice', 'viewer', 'host');
+
+      const change = await chatService.setMeetingRole('m1', 'alice', 'participant', 'host');
+
+      expect(change).toMatchObject({ role: 'participant', previousRole: 'viewer' });
+      expect((await repository.findById('m1'))?.roles).toEqual({});
+    });
+
+    it('returns null when the user already has the role', async () => {
+      expect(await chatService.setMeetingRole('m1', 'alice', 'participant', 'host')).toBeNull();
+    });
+
+    it('does not change the role of a user who became host meanwhile', async () => {
+      const transfer = chatService.changeHost('m1', 'alice', 'transfer');
+      const setRole = chatService.setMeetingRole('m1', 'alice', 'viewer', 'host');
+
+      const [, roleResult] = await Promise.allSettled([transfer, setRole]);
+      const stored = await repository.findById('m1');
+
+      expect(stored?.hostId).toBe('alice');
+      expect(stored?.roles).toEqual({ host: 'co-host' });
+      expect(roleResult).toMatchObject({
+        status: 'rejected',
+        reason: new Error('The host changed in the meantime'),
+      });
+    });
+  });
+
+  describe('banUserFromMeeting', () => {
+    it('keeps concurrent bans of different users', async () => {
+      // Both read the meeting before either writes
+      await Promise.all([
+        chatService.banUserFromMeeting('m1', 'alice'),
+        chatService.banUserFromMeeting('m1', 'bob'),
+      ]);
+
+      expect((await repository.findById('m1'))?.bannedUsers).toEqual(['alice', 'bob']);
+    });
+
+    it('bans a user once', async () => {
+      await chatService.banUserFromMeeting('m1', 'alice');
+      await chatService.banUserFromMeeting('m1', 'alice');
+
+      expect((await repository.findById('m1'))?.bannedUsers).toEqual(['alice']);
+    });
+
+    it('fails for a missing meeting', async () => {
+      await expect(chatService.banUserFromMeeting('missing', 'alice')).rejects.toThrow(
+        'Meeting not found'
+      );
+    });
+  });
+
+  describe('changeHost', () => {
+    it('keeps roles set while the host changed', async () => {
+      // Both read the meeting before either writes
+      await Promise.all([
+        chatService.setMeetingRole('m1', 'bob', 'viewer', 'host'),
+        chatService.changeHost('m1', 'alice', 'transfer'),
+      ]);
+
+      expect((await repository.findById('m1'))?.roles).toEqual({ host: 'co-host', bob: 'viewer' });
+    });
+  });
+});
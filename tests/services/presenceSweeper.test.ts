@@ -0,0 +1,76 @@
+import { RedisPresenceStore } from '../../src/presence';
+import { PresenceSweeper } from '../../src/services/presenceSweeper';
+import { OnlineUser } from '../../src/types';
+import { createRedisStandIn } from '../support/redisStandIn';
+
+const onlineUser = (userId: string, socketId: string): OnlineUser => ({
+  userId,
+  meetingId: 'm1',
+  socketIds: [socketId],
+  joinedAt: new Date().toISOString(),
+});
+
+const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('PresenceSweeper', () => {
+  let nodeA: RedisPresenceStore;
+  let nodeB: RedisPresenceStore;
+
+  beforeEach(async () => {
+    const client = await createRedisStandIn();
+    nodeA = new RedisPresenceStore(client, 'node-a');
+    nodeB = new RedisPresenceStore(client, 'node-b');
+  });
+
+  it('removes the users of an instance that stopped sending heartbeats', async () => {
+    const sweeperA = new PresenceSweeper({ intervalMs: 10 }, nodeA);
+    await sweeperA.tick();
+    await nodeA.join(onlineUser('alice', 'a1'), 10);
+    await nodeA.join(onlineUser('bob', 'a2'), 10);
+    await nodeA.setReconnecting('m1', 'a2', new Date().toISOString());
+
+    // node-a crashes: no more ticks, its heartbeat runs out after three intervals
+    await wait(50);
+
+    const sweeperB = new PresenceSweeper({ intervalMs: 1000 }, nodeB);
+    sweeperB.onOrphanedSocket(async (socketId) => {
+      for (const meetingId of await nodeB.getSocketMeetingIds(socketId)) {
+        await nodeB.leave(meetingId, socketId);
+      }
+    });
+    await sweeperB.tick();
+
+    expect(await nodeB.getParticipants('m1')).toEqual([]);
+    expect(await nodeB.countUsers()).toBe(0);
+  });
+
+  it('leaves the users of a live instance alone', async () => {
+    await new PresenceSweeper({ intervalMs: 1000 }, nodeA).tick();
+    await nodeA.join(onlineUser('alice', 'a1'), 10);
+
+    const handler = jest.fn(async () => undefined);
+    const sweeperB = new PresenceSweeper({ intervalMs: 1000 }, nodeB);
+    sweeperB.onOrphanedSocket(handler);
+    await sweeperB.tick();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await nodeB.countUsers()).toBe(1);
+  });
+
+  it('keeps sweeping when one socket fails', async () => {
+    await new PresenceSweeper({ intervalMs: 10 }, nodeA).tick();
+    await nodeA.join(onlineUser('alice', 'a1'), 10);
+    await nodeA.join(onlineUser('bob', 'a2'), 10);
+    await wait(50);
+
+    const handled: string[] = [];
+    const sweeperB = new PresenceSweeper({ intervalMs: 1000 }, nodeB);
+    sweeperB.onOrphanedSocket(async (socketId) => {
+      handled.push(socketId);
+      throw new Error('boom');
+    });
+    await sweeperB.tick();
+
+    expect(handled.sort()).toEqual(['a1', 'a2']);
+  });
+});
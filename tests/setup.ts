@@ -0,0 +1,4 @@
+// Tests run offline: in-memory storage and presence, no Firebase or Redis
+process.env.STORAGE_DRIVER = 'memory';
+process.env.PRESENCE_DRIVER = 'memory';
+delete process.env.REDIS_URL;
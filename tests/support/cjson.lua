@@ -0,0 +1,115 @@
+-- Minimal cjson for the Redis stand-in (ioredis-mock's Lua VM has no cjson library)
+-- Covers what the presence scripts use: objects, arrays, strings, numbers and booleans
+cjson = {}
+
+local escapes = { ['"'] = '\\"', ['\\'] = '\\\\', ['\n'] = '\\n', ['\r'] = '\\r', ['\t'] = '\\t' }
+
+local function encode(value)
+  local kind = type(value)
+  if kind == 'nil' then
+    return 'null'
+  elseif kind == 'boolean' then
+    return tostring(value)
+  elseif kind == 'number' then
+    if math.type(value) == 'integer' then
+      return tostring(value)
+    end
+    return string.format('%.14g', value)
+  elseif kind == 'string' then
+    local escaped = value:gsub('[%c"\\]', function(c)
+      return escapes[c] or string.format('\\u%04x', c:byte())
+    end)
+    return '"' .. escaped .. '"'
+  end
+
+  local parts = {}
+  if #value > 0 then
+    for _, item in ipairs(value) do
+      table.insert(parts, encode(item))
+    end
+    return '[' .. table.concat(parts, ',') .. ']'
+  end
+  for key, item in pairs(value) do
+    table.insert(parts, encode(tostring(key)) .. ':' .. encode(item))
+  end
+  return '{' .. table.concat(parts, ',') .. '}'
+end
+
+local function skip(text, i)
+  return text:find('%S', i)
+end
+
+local function decode(text, i)
+  i = skip(text, i)
+  local c = text:sub(i, i)
+
+  if c == '{' then
+    local object = {}
+    i = skip(text, i + 1)
+    if text:sub(i, i) == '}' then
+      return object, i + 1
+    end
+    while true do
+      local key
+      key, i = decode(text, i)
+      i = skip(text, i) + 1
+      object[key], i = decode(text, i)
+      i = skip(text, i)
+      local delimiter = text:sub(i, i)
+      i = i + 1
+      if delimiter == '}' then
+        return object, i
+      end
+    end
+  elseif c == '[' then
+    local array = {}
+    i = skip(text, i + 1)
+    if text:sub(i, i) == ']' then
+      return array, i + 1
+    end
+    while true do
+      array[#array + 1], i = decode(text, i)
+      i = skip(text, i)
+      local delimiter = text:sub(i, i)
+      i = i + 1
+      if delimiter == ']' then
+        return array, i
+      end
+    end
+  elseif c == '"' then
+    local chars = {}
+    local j = i + 1
+    while true do
+      local ch = text:sub(j, j)
+      if ch == '"' then
+        return table.concat(chars), j + 1
+      elseif ch == '\\' then
+        local e = text:sub(j + 1, j + 1)
+        if e == 'u' then
+          chars[#chars + 1] = utf8.char(tonumber(text:sub(j + 2, j + 5), 16))
+          j = j + 6
+        else
+          chars[#chars + 1] = ({ b = '\b', f = '\f', n = '\n', r = '\r', t = '\t' })[e] or e
+          j = j + 2
+        end
+      else
+        chars[#chars + 1] = ch
+        j = j + 1
+      end
+    end
+  elseif text:sub(i, i + 3) == 'true' then
+    return true, i + 4
+  elseif text:sub(i, i + 4) == 'false' then
+    return false, i + 5
+  elseif text:sub(i, i + 3) == 'null' then
+    return nil, i + 4
+  end
+
+  local number = text:match('^-?%d+%.?%d*[eE]?[-+]?%d*', i)
+  return tonumber(number), i + #number
+end
+
+cjson.encode = encode
+cjson.decode = function(text)
+  return (decode(text, 1))
+end
@@ -0,0 +1,112 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import RedisMock from 'ioredis-mock';
+import { RedisClient } from '../../src/config/redis';
+
+// Loaded ahead of every script, ioredis-mock's Lua VM has no cjson
+const CJSON_LUA = readFileSync(join(__dirname, 'cjson.lua'), 'utf8');
+
+type Mock = InstanceType<typeof RedisMock>;
+
+let redisMock: Mock | null = null;
+
+// SET with options built at runtime, which the typed overloads don't allow
+type RawCommand = (...args: (string | number)[]) => Promise<string | null>;
+
+interface SetOptions {
+  PX?: number;
+  NX?: boolean;
+}
+
+/**
+ * Turn a Lua reply into what a real server sends (false is a nil reply)
+ * @param {unknown} reply - ioredis-mock reply
+ * @returns {unknown} Reply as node-redis returns it
+ */
+const toReply = (reply: unknown): unknown => (reply === false ? null : reply);
+
+/**
+ * Build the ioredis arguments for SET
+ * @param {SetOptions} options - node-redis SET options
+ * @returns {(string | number)[]} Extra SET arguments
+ */
+const setArguments = (options: SetOptions = {}): (string | number)[] => [
+  ...(options.PX !== undefined ? ['PX', options.PX] : []),
+  ...(options.NX ? ['NX'] : []),
+];
+
+/**
+ * Queue of commands for MULTI, with the node-redis method names
+ */
+class StandInMulti {
+  private readonly commands: [string, ...(string | number)[]][] = [];
+
+  constructor(private readonly redis: Mock) {}
+
+  hVals(key: string): this {
+    this.commands.push(['hvals', key]);
+    return this;
+  }
+
+  hLen(key: string): this {
+    this.commands.push(['hlen', key]);
+    return this;
+  }
+
+  del(key: string): this {
+    this.commands.push(['del', key]);
+    return this;
+  }
+
+  sAdd(key: string, member: string): this {
+    this.commands.push(['sadd', key, member]);
+    return this;
+  }
+
+  set(key: string, value: string, options?: SetOptions): this {
+    this.commands.push(['set', key, value, ...setArguments(options)]);
+    return this;
+  }
+
+  async exec(): Promise<unknown[]> {
+    const results = (await this.redis.multi(this.commands).exec()) || [];
+    return results.map(([error, reply]) => {
+      if (error) throw error;
+      return reply;
+    });
+  }
+}
+
+/**
+ * In-process Redis stand-in with the node-redis v4 API the stores use
+ * Runs the real Lua scripts, so two stores sharing one stand-in behave
+ * like two server instances sharing one Redis server.
+ * @returns {Promise<RedisClient>} Empty client for RedisPresenceStore and friends
+ */
+export const createRedisStandIn = async (): Promise<RedisClient> => {
+  // ioredis-mock instances share their data anyway, so reuse one and start it empty
+  redisMock = redisMock || new RedisMock();
+  const redis = redisMock;
+  await redis.flushall();
+
+  const client = {
+    eval: async (script: string, options: { keys?: string[]; arguments?: string[] } = {}) => {
+      const keys = options.keys || [];
+      const args = options.arguments || [];
+      return toReply(await redis.eval(`${CJSON_LUA}\n${script}`, keys.length, ...keys, ...args));
+    },
+    hVals: (key: string) => redis.hvals(key),
+    sAdd: (key: string, member: string) => redis.sadd(key, member),
+    sRem: (key: string, member: string) => redis.srem(key, member),
+    sIsMember: async (key: string, member: string) => (await redis.sismember(key, member)) === 1,
+    sMembers: (key: string) => redis.smembers(key),
+    sCard: (key: string) => redis.scard(key),
+    del: (key: string) => redis.del(key),
+    exists: (key: string) => redis.exists(key),
+    set: (key: string, value: string, options?: SetOptions) =>
+      (redis.set as unknown as RawCommand).call(redis, key, value, ...setArguments(options)),
+    multi: () => new StandInMulti(redis),
+  };
+
+  return client as unknown as RedisClient;
+};
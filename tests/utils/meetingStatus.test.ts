@@ -0,0 +1,158 @@
+import { Meeting } from '../../src/types';
+import {
+  canTransition,
+  getJoinRejection,
+  getMeetingStartTime,
+  getNextMeetingStatus,
+  normalizeMeetingStatus,
+} from '../../src/utils/meetingStatus';
+import { hashPasscode } from '../../src/utils/passcode';
+
+const meeting = (overrides: Partial<Meeting> = {}): Meeting => ({
+  meetingId: 'm1',
+  hostId: 'host',
+  title: 'Standup',
+  description: '',
+  date: '2025-01-01',
+  time: '09:00',
+  timezone: 'UTC',
+  estimatedDuration: 30,
+  maxParticipants: 10,
+  participants: ['host'],
+  activeParticipants: 0,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  status: 'scheduled',
+  ...overrides,
+});
+
+const at = (time: string) => new Date(`2025-01-01T${time}:00.000Z`);
+
+describe('normalizeMeetingStatus', () => {
+  it('maps legacy and missing statuses to scheduled', () => {
+    expect(normalizeMeetingStatus('active')).toBe('scheduled');
+    expect(normalizeMeetingStatus(undefined)).toBe('scheduled');
+    expect(normalizeMeetingStatus('live')).toBe('live');
+  });
+});
+
+describe('canTransition', () => {
+  it('allows moving forward', () => {
+    expect(canTransition('scheduled', 'live')).toBe(true);
+    expect(canTransition('active', 'cancelled')).toBe(true);
+    expect(canTransition('live', 'completed')).toBe(true);
+  });
+
+  it('refuses going back or leaving a final status', () => {
+    expect(canTransition('live', 'scheduled')).toBe(false);
+    expect(canTransition('completed', 'live')).toBe(false);
+    expect(canTransition('cancelled', 'scheduled')).toBe(false);
+    expect(canTransition('scheduled', 'active')).toBe(false);
+  });
+});
+
+describe('getMeetingStartTime', () => {
+  it('prefers the stored start instant', () => {
+    const start = getMeetingStartTime(meeting({ startsAt: '2025-01-01T14:00:00.000Z' }));
+
+    expect(start.toISOString()).toBe('2025-01-01T14:00:00.000Z');
+  });
+
+  it('reads date and time in the meeting timezone', () => {
+    const start = getMeetingStartTime(meeting({ timezone: 'America/Bogota' }));
+
+    expect(start.toISOString()).toBe('2025-01-01T14:00:00.000Z');
+  });
+});
+
+describe('getNextMeetingStatus', () => {
+  const OVERRUN = 60 * 60 * 1000;
+
+  it('goes live once started with someone online', () => {
+    expect(getNextMeetingStatus(meeting(), 1, at('08:59'), OVERRUN)).toBeNull();
+    expect(getNextMeetingStatus(meeting(), 1, at('09:00'), OVERRUN)).toBe('live');
+    expect(getNextMeetingStatus(meeting(), 0, at('09:10'), OVERRUN)).toBeNull();
+  });
+
+  it('completes a scheduled meeting nobody joined once it ended', () => {
+    expect(getNextMeetingStatus(meeting(), 0, at('09:30'), OVERRUN)).toBe('completed');
+  });
+
+  it('completes a live meeting when it empties after the end or overruns', () => {
+    const live = meeting({ status: 'live' });
+
+    expect(getNextMeetingStatus(live, 0, at('09:20'), OVERRUN)).toBeNull();
+    expect(getNextMeetingStatus(live, 0, at('09:30'), OVERRUN)).toBe('completed');
+    expect(getNextMeetingStatus(live, 2, at('10:00'), OVERRUN)).toBeNull();
+    expect(getNextMeetingStatus(live, 2, at('10:30'), OVERRUN)).toBe('completed');
+  });
+
+  it('leaves final statuses and unreadable schedules alone', () => {
+    expect(getNextMeetingStatus(meeting({ status: 'completed' }), 0, at('12:00'), 0)).toBeNull();
+    expect(getNextMeetingStatus(meeting({ time: 'soon' }), 1, at('12:00'), 0)).toBeNull();
+  });
+});
+
+describe('getJoinRejection', () => {
+  const EARLY = 10 * 60 * 1000;
+
+  it('opens the meeting shortly before it starts', () => {
+    expect(getJoinRejection(meeting(), 'alice', at('08:45'), EARLY)).toEqual({
+      code: 'MEETING_NOT_STARTED',
+      message: 'Meeting has not started yet',
+      statusCode: 403,
+      opensAt: '2025-01-01T08:50:00.000Z',
+    });
+    expect(getJoinRejection(meeting(), 'alice', at('08:50'), EARLY)).toBeNull();
+    expect(getJoinRejection(meeting({ status: 'live' }), 'alice', at('08:00'), EARLY)).toBeNull();
+  });
+
+  it('refuses ended and cancelled meetings', () => {
+    const now = at('09:00');
+
+    expect(getJoinRejection(meeting({ status: 'completed' }), 'alice', now, EARLY)).toMatchObject({
+      code: 'MEETING_COMPLETED',
+      statusCode: 409,
+    });
+    expect(getJoinRejection(meeting({ status: 'cancelled' }), 'alice', now, EARLY)).toMatchObject({
+      code: 'MEETING_CANCELLED',
+      statusCode: 409,
+    });
+  });
+
+  it('refuses banned users before anything else', () => {
+    const banned = meeting({ status: 'cancelled', bannedUsers: ['alice'] });
+
+    expect(getJoinRejection(banned, 'alice', at('09:00'), EARLY)).toMatchObject({
+      code: 'USER_BANNED',
+    });
+  });
+
+  it('only lets invited users into invite-only meetings', () => {
+    const inviteOnly = meeting({ visibility: 'invite-only', invitedUsers: ['bob'] });
+
+    expect(getJoinRejection(inviteOnly, 'alice', at('09:00'), EARLY)).toMatchObject({
+      code: 'NOT_INVITED',
+    });
+    expect(getJoinRejection(inviteOnly, 'bob', at('09:00'), EARLY)).toBeNull();
+    expect(getJoinRejection(inviteOnly, 'host', at('09:00'), EARLY)).toBeNull();
+  });
+
+  it('checks the passcode unless the user joined before', () => {
+    const locked = meeting({
+      visibility: 'passcode',
+      passcodeHash: hashPasscode('1234'),
+      participants: ['host', 'bob'],
+    });
+    const now = at('09:00');
+
+    expect(getJoinRejection(locked, 'alice', now, EARLY)).toMatchObject({
+      code: 'PASSCODE_REQUIRED',
+    });
+    expect(getJoinRejection(locked, 'alice', now, EARLY, '0000')).toMatchObject({
+      code: 'INVALID_PASSCODE',
+    });
+    expect(getJoinRejection(locked, 'alice', now, EARLY, '1234')).toBeNull();
+    expect(getJoinRejection(locked, 'bob', now, EARLY)).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { Meeting } from '../../src/types';
+import { getMeetingRole, hasPermission, outranks } from '../../src/utils/permissions';
+
+const meeting = (roles: Record<string, string> = {}): Meeting =>
+  ({
+    meetingId: 'm1',
+    hostId: 'host',
+    participants: ['host', 'cohost', 'viewer', 'alice'],
+    roles,
+  }) as unknown as Meeting;
+
+describe('getMeetingRole', () => {
+  it('returns host for the meeting host, whatever is stored', () => {
+    expect(getMeetingRole(meeting({ host: 'viewer' }), 'host')).toBe('host');
+  });
+
+  it('returns stored roles and participant otherwise', () => {
+    const m = meeting({ cohost: 'co-host', viewer: 'viewer' });
+
+    expect(getMeetingRole(m, 'cohost')).toBe('co-host');
+    expect(getMeetingRole(m, 'viewer')).toBe('viewer');
+    expect(getMeetingRole(m, 'alice')).toBe('participant');
+    expect(getMeetingRole({ ...m, roles: undefined }, 'cohost')).toBe('participant');
+  });
+
+  it('ignores inherited keys', () => {
+    const m = meeting();
+
+    expect(getMeetingRole(m, 'constructor')).toBe('participant');
+    expect(getMeetingRole(m, '__proto__')).toBe('participant');
+    expect(getMeetingRole(m, 'toString')).toBe('participant');
+  });
+
+  it('ignores unknown and host values in the roles map', () => {
+    const m = meeting({ alice: 'admin', bob: 'host' });
+
+    expect(getMeetingRole(m, 'alice')).toBe('participant');
+    expect(getMeetingRole(m, 'bob')).toBe('participant');
+  });
+});
+
+describe('hasPermission', () => {
+  const m = meeting({ cohost: 'co-host', viewer: 'viewer' });
+
+  it('lets only the host delete and manage roles', () => {
+    expect(hasPermission(m, 'host', 'delete')).toBe(true);
+    expect(hasPermission(m, 'host', 'manage-roles')).toBe(true);
+    expect(hasPermission(m, 'cohost', 'delete')).toBe(false);
+    expect(hasPermission(m, 'cohost', 'manage-roles')).toBe(false);
+  });
+
+  it('lets co-hosts moderate and admit', () => {
+    expect(hasPermission(m, 'cohost', 'moderate')).toBe(true);
+    expect(hasPermission(m, 'cohost', 'admit')).toBe(true);
+    expect(hasPermission(m, 'alice', 'moderate')).toBe(false);
+  });
+
+  it('lets participants but not viewers chat', () => {
+    expect(hasPermission(m, 'alice', 'chat')).toBe(true);
+    expect(hasPermission(m, 'viewer', 'chat')).toBe(false);
+  });
+});
+
+describe('outranks', () => {
+  const m = meeting({ cohost: 'co-host', other: 'co-host', viewer: 'viewer' });
+
+  it('compares role ranks', () => {
+    expect(outranks(m, 'host', 'cohost')).toBe(true);
+    expect(outranks(m, 'cohost', 'alice')).toBe(true);
+    expect(outranks(m, 'alice', 'viewer')).toBe(true);
+    expect(outranks(m, 'cohost', 'other')).toBe(false);
+    expect(outranks(m, 'cohost', 'host')).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { RecurrenceRule } from '../../src/types';
+import {
+  expandRecurrence,
+  MAX_SERIES_OCCURRENCES,
+  validateRecurrenceRule,
+} from '../../src/utils/recurrence';
+
+describe('validateRecurrenceRule', () => {
+  const validate = (rule: unknown) =>
+    validateRecurrenceRule(rule as Partial<RecurrenceRule>, '2025-01-01');
+
+  it('accepts rules with an end', () => {
+    expect(validate({ frequency: 'daily', count: 5 })).toBeNull();
+    expect(validate({ frequency: 'weekly', weekdays: [1, 3], until: '2025-02-01' })).toBeNull();
+    expect(validate({ frequency: 'monthly', interval: 2, count: 3 })).toBeNull();
+  });
+
+  it('rejects rules that are not objects or have an unknown frequency', () => {
+    expect(validate(null)).toBe('Recurrence must be an object');
+    expect(validate('daily')).toBe('Recurrence must be an object');
+    expect(validate({ frequency: 'yearly', count: 2 })).toMatch(/frequency must be one of/);
+    expect(validate({ count: 2 })).toMatch(/frequency must be one of/);
+  });
+
+  it('rejects bad intervals and weekdays', () => {
+    expect(validate({ frequency: 'daily', interval: 0, count: 2 })).toMatch(/interval/);
+    expect(validate({ frequency: 'daily', interval: 1.5, count: 2 })).toMatch(/interval/);
+    expect(validate({ frequency: 'daily', weekdays: [1], count: 2 })).toMatch(
+      /only allowed for weekly/
+    );
+    expect(validate({ frequency: 'weekly', weekdays: [], count: 2 })).toMatch(/weekdays must be/);
+    expect(validate({ frequency: 'weekly', weekdays: [7], count: 2 })).toMatch(/weekdays must be/);
+  });
+
+  it('needs a valid end', () => {
+    expect(validate({ frequency: 'daily' })).toBe(
+      'Recurrence needs an end date (until) or a count'
+    );
+    expect(validate({ frequency: 'daily', until: '2025-13-01' })).toMatch(/valid date/);
+    expect(validate({ frequency: 'daily', until: '2024-12-31' })).toMatch(/not be before/);
+    expect(validate({ frequency: 'daily', count: 0 })).toMatch(/count must be between/);
+    expect(validate({ frequency: 'daily', count: MAX_SERIES_OCCURRENCES + 1 })).toMatch(
+      /count must be between/
+    );
+  });
+});
+
+describe('expandRecurrence', () => {
+  it('repeats daily with an interval', () => {
+    expect(expandRecurrence('2025-01-30', { frequency: 'daily', interval: 2, count: 3 })).toEqual([
+      '2025-01-30',
+      '2025-02-01',
+      '2025-02-03',
+    ]);
+  });
+
+  it('stops at the until date (inclusive)', () => {
+    expect(expandRecurrence('2025-01-01', { frequency: 'daily', until: '2025-01-03' })).toEqual([
+      '2025-01-01',
+      '2025-01-02',
+      '2025-01-03',
+    ]);
+  });
+
+  it('repeats weekly on the start weekday by default', () => {
+    // 2025-01-01 is a Wednesday
+    expect(expandRecurrence('2025-01-01', { frequency: 'weekly', count: 3 })).toEqual([
+      '2025-01-01',
+      '2025-01-08',
+      '2025-01-15',
+    ]);
+  });
+
+  it('keeps only the listed weekdays on or after the start', () => {
+    // Monday and Friday every other week, starting on a Wednesday
+    expect(
+      expandRecurrence('2025-01-01', {
+        frequency: 'weekly',
+        interval: 2,
+        weekdays: [5, 1],
+        count: 4,
+      })
+    ).toEqual(['2025-01-03', '2025-01-13', '2025-01-17', '2025-01-27']);
+  });
+
+  it('skips months without the start day', () => {
+    expect(expandRecurrence('2025-01-31', { frequency: 'monthly', until: '2025-06-30' })).toEqual([
+      '2025-01-31',
+      '2025-03-31',
+      '2025-05-31',
+    ]);
+  });
+
+  it('returns null above the occurrence limit', () => {
+    expect(expandRecurrence('2025-01-01', { frequency: 'daily', until: '2026-01-01' })).toBeNull();
+    expect(
+      expandRecurrence('2025-01-01', { frequency: 'daily', count: MAX_SERIES_OCCURRENCES })
+    ).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+
+  it('returns no dates when the until date comes first', () => {
+    // Only the 31st is wanted and February has none
+    expect(expandRecurrence('2025-01-31', { frequency: 'monthly', until: '2025-01-30' })).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  getDateInTimeZone,
+  isValidDate,
+  isValidTime,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from '../../src/utils/timezone';
+
+describe('isValidDate', () => {
+  it('accepts real calendar dates', () => {
+    expect(isValidDate('2025-01-31')).toBe(true);
+    expect(isValidDate('2024-02-29')).toBe(true);
+  });
+
+  it('rejects malformed and impossible dates', () => {
+    expect(isValidDate('2025-02-29')).toBe(false);
+    expect(isValidDate('2025-04-31')).toBe(false);
+    expect(isValidDate('2025-1-5')).toBe(false);
+    expect(isValidDate('2025-01-01T00:00')).toBe(false);
+    expect(isValidDate(20250101)).toBe(false);
+  });
+});
+
+describe('isValidTime', () => {
+  it('accepts 24h times', () => {
+    expect(isValidTime('00:00')).toBe(true);
+    expect(isValidTime('23:59')).toBe(true);
+  });
+
+  it('rejects malformed and impossible times', () => {
+    expect(isValidTime('24:00')).toBe(false);
+    expect(isValidTime('12:60')).toBe(false);
+    expect(isValidTime('9:00')).toBe(false);
+    expect(isValidTime(null)).toBe(false);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA timezones', () => {
+    expect(isValidTimeZone('America/Bogota')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+  });
+
+  it('rejects unknown or empty values', () => {
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+    expect(isValidTimeZone(undefined)).toBe(false);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock times with the offset in effect', () => {
+    expect(zonedTimeToUtc('2025-01-15', '09:00', 'America/Bogota').toISOString()).toBe(
+      '2025-01-15T14:00:00.000Z'
+    );
+    expect(zonedTimeToUtc('2025-07-15', '09:00', 'Europe/Madrid').toISOString()).toBe(
+      '2025-07-15T07:00:00.000Z'
+    );
+    expect(zonedTimeToUtc('2025-01-15', '09:00', 'Europe/Madrid').toISOString()).toBe(
+      '2025-01-15T08:00:00.000Z'
+    );
+  });
+
+  it('moves times skipped by a DST change to after it', () => {
+    // 02:30 does not exist in New York on 2025-03-09, it is 03:30 EDT
+    expect(zonedTimeToUtc('2025-03-09', '02:30', 'America/New_York').toISOString()).toBe(
+      '2025-03-09T07:30:00.000Z'
+    );
+  });
+
+  it('picks the first of two repeated times', () => {
+    // 01:30 happens twice in New York on 2025-11-02, first in EDT
+    expect(zonedTimeToUtc('2025-11-02', '01:30', 'America/New_York').toISOString()).toBe(
+      '2025-11-02T05:30:00.000Z'
+    );
+  });
+
+  it('returns an invalid date for malformed input', () => {
+    expect(zonedTimeToUtc('2025-13-01', '09:00', 'UTC').getTime()).toBeNaN();
+  });
+});
+
+describe('getDateInTimeZone', () => {
+  it('returns the local calendar date', () => {
+    const instant = new Date('2025-01-01T03:00:00.000Z');
+
+    expect(getDateInTimeZone(instant, 'UTC')).toBe('2025-01-01');
+    expect(getDateInTimeZone(instant, 'America/Bogota')).toBe('2024-12-31');
+    expect(getDateInTimeZone(new Date('2025-01-01T23:00:00.000Z'), 'Asia/Tokyo')).toBe(
+      '2025-01-02'
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { TokenBucketLimiter } from '../../src/utils/tokenBucket';
+
+describe('TokenBucketLimiter', () => {
+  let now: number;
+  let limiter: TokenBucketLimiter;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    limiter = new TokenBucketLimiter({ capacity: 3, refillPerSecond: 1 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('allows a burst up to the capacity', () => {
+    expect([1, 2, 3, 4].map(() => limiter.consume('a'))).toEqual([true, true, true, false]);
+  });
+
+  it('keeps one bucket per key', () => {
+    limiter.consume('a', 3);
+
+    expect(limiter.consume('a')).toBe(false);
+    expect(limiter.consume('b')).toBe(true);
+  });
+
+  it('refills over time without going past the capacity', () => {
+    limiter.consume('a', 3);
+    now += 1500;
+
+    expect(limiter.consume('a')).toBe(true);
+    expect(limiter.consume('a')).toBe(false);
+
+    now += 60_000;
+    expect(limiter.consume('a', 3)).toBe(true);
+    expect(limiter.consume('a')).toBe(false);
+  });
+
+  it('tells how long to wait', () => {
+    expect(limiter.retryAfterMs('a')).toBe(0);
+
+    limiter.consume('a', 3);
+    expect(limiter.retryAfterMs('a')).toBe(1000);
+    expect(limiter.retryAfterMs('a', 2)).toBe(2000);
+
+    now += 250;
+    expect(limiter.retryAfterMs('a')).toBe(750);
+  });
+
+  it('starts over after delete', () => {
+    limiter.consume('a', 3);
+    limiter.delete('a');
+
+    expect(limiter.consume('a', 3)).toBe(true);
+  });
+
+  it('keeps partly used buckets when pruning', () => {
+    limiter.consume('a', 3);
+    limiter.consume('b', 1);
+    now += 1000;
+    limiter.prune();
+
+    // b is full again, a only got 1 token back
+    expect(limiter.retryAfterMs('b', 3)).toBe(0);
+    expect(limiter.retryAfterMs('a', 2)).toBe(1000);
+  });
+});